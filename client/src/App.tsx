@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtime } from "@/hooks/useRealtime";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
 import Login from "@/pages/login";
@@ -12,11 +13,18 @@ import Home from "@/pages/home";
 import Browse from "@/pages/browse";
 import Upload from "@/pages/upload";
 import Profile from "@/pages/profile";
+import Settings from "@/pages/settings";
+import PseudPage from "@/pages/pseud";
+import SeriesPage from "@/pages/series";
+import FanworkPage from "@/pages/fanwork";
+import EditFanworkPage from "@/pages/edit-fanwork";
+import NotificationsPage from "@/pages/notifications";
 import AgeVerification from "@/pages/age-verification";
 import AdminPanel from "@/pages/admin";
 
 function Router() {
   const { user, isAuthenticated, isLoading } = useAuth();
+  useRealtime(isAuthenticated);
 
   if (isLoading) {
     return (
@@ -45,9 +53,16 @@ function Router() {
           <Route path="/browse" component={Browse} />
           <Route path="/upload" component={Upload} />
           <Route path="/profile" component={Profile} />
+          <Route path="/settings" component={Settings} />
+          <Route path="/works/:id/edit" component={EditFanworkPage} />
+          <Route path="/notifications" component={NotificationsPage} />
           <Route path="/admin" component={AdminPanel} />
         </>
       )}
+      <Route path="/works/:id" component={FanworkPage} />
+      <Route path="/series/:id" component={SeriesPage} />
+      <Route path="/users/:username" component={Profile} />
+      <Route path="/users/:username/pseuds/:pseudId" component={PseudPage} />
       <Route component={NotFound} />
     </Switch>
   );
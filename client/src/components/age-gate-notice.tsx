@@ -0,0 +1,40 @@
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Shield } from "lucide-react";
+
+// Shown in place of a work the server withheld because it's rated Mature or
+// Explicit and the viewer hasn't confirmed they're an adult.
+export default function AgeGateNotice() {
+  const { isAuthenticated } = useAuth();
+
+  return (
+    <Card className="bg-dark-surface border-border">
+      <CardContent className="p-8 text-center space-y-4">
+        <div className="mx-auto w-14 h-14 bg-gradient-to-br from-green-400 to-blue-500 rounded-full flex items-center justify-center">
+          <Shield className="w-7 h-7 text-black" />
+        </div>
+        <h2 className="text-xl font-bold text-neon-green">Age Verification Required</h2>
+        <p className="text-muted-foreground">
+          This work is rated Mature or Explicit and is only shown to members who have confirmed
+          they are 18 or older.
+        </p>
+        {isAuthenticated ? (
+          <p className="text-sm text-muted-foreground">
+            Confirm your age from the verification prompt to continue.
+          </p>
+        ) : (
+          <div className="flex justify-center gap-2">
+            <Link href="/login">
+              <Button className="bg-neon-green text-dark-bg hover:bg-neon-green/90">Log In</Button>
+            </Link>
+            <Link href="/register">
+              <Button variant="outline" className="border-border">Sign Up</Button>
+            </Link>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
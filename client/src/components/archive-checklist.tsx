@@ -0,0 +1,36 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { archiveWarnings, fanworkCategories, toggleWarning } from "@/lib/archive";
+
+interface ArchiveChecklistProps {
+  kind: "warnings" | "categories";
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+// Checkbox list for a work's archive warnings or relationship categories
+export default function ArchiveChecklist({ kind, value, onChange }: ArchiveChecklistProps) {
+  const options = kind === "warnings" ? archiveWarnings : fanworkCategories;
+
+  const handleChange = (option: string, checked: boolean) => {
+    if (kind === "warnings") {
+      onChange(toggleWarning(value, option, checked));
+    } else {
+      onChange(checked ? [...value, option] : value.filter((entry) => entry !== option));
+    }
+  };
+
+  return (
+    <div className={kind === "warnings" ? "space-y-2" : "grid grid-cols-3 gap-2"}>
+      {options.map((option) => (
+        <label key={option.value} className="flex items-center space-x-2 cursor-pointer">
+          <Checkbox
+            checked={value.includes(option.value)}
+            onCheckedChange={(checked) => handleChange(option.value, checked as boolean)}
+            className="data-[state=checked]:bg-neon-green data-[state=checked]:border-neon-green"
+          />
+          <span className="text-sm text-muted-foreground">{option.label}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
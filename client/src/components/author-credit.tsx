@@ -0,0 +1,64 @@
+import { Fragment } from "react";
+import { Link } from "wouter";
+import { getDisplayName } from "@/lib/utils";
+
+type CreditUser = { username: string; firstName?: string | null; lastName?: string | null };
+type CreditPseud = { id: number; name: string } | null;
+
+interface AuthorCreditProps {
+  author: CreditUser | null;
+  pseud?: CreditPseud;
+  coCreators?: { user: CreditUser; pseud: CreditPseud }[];
+  className?: string;
+}
+
+const linkClass = "hover:text-neon-green hover:underline";
+
+// "Pseud (username)" when a creator is credited under a secondary pseud,
+// otherwise just their name. Links stop propagation so they work inside clickable cards.
+function Credit({ user, pseud }: { user: CreditUser; pseud?: CreditPseud }) {
+  if (pseud && pseud.name !== user.username) {
+    return (
+      <>
+        <Link
+          href={`/users/${user.username}/pseuds/${pseud.id}`}
+          onClick={(e) => e.stopPropagation()}
+          className={linkClass}
+        >
+          {pseud.name}
+        </Link>{" "}
+        (
+        <Link href={`/users/${user.username}`} onClick={(e) => e.stopPropagation()} className={linkClass}>
+          {user.username}
+        </Link>
+        )
+      </>
+    );
+  }
+
+  return (
+    <Link href={`/users/${user.username}`} onClick={(e) => e.stopPropagation()} className={linkClass}>
+      {getDisplayName(user)}
+    </Link>
+  );
+}
+
+export default function AuthorCredit({ author, pseud, coCreators = [], className = "" }: AuthorCreditProps) {
+  if (!author) {
+    return <span className={className}>by {getDisplayName(author)}</span>;
+  }
+
+  const credits = [{ user: author, pseud: pseud ?? null }, ...coCreators];
+
+  return (
+    <span className={className}>
+      by{" "}
+      {credits.map((credit, index) => (
+        <Fragment key={credit.user.username}>
+          {index > 0 && (index === credits.length - 1 ? " and " : ", ")}
+          <Credit user={credit.user} pseud={credit.pseud} />
+        </Fragment>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getDisplayName } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Users, UserPlus, X } from "lucide-react";
+
+interface FanworkCreator {
+  userId: number;
+  status: "pending" | "accepted";
+  user: { id: number; username: string; firstName: string | null; lastName: string | null };
+  pseud: { id: number; name: string } | null;
+}
+
+interface CoCreatorManagerProps {
+  fanworkId: number;
+}
+
+// Lets a work's creators invite others by username and withdraw invitations
+// or remove co-creators. Invitees show up once they accept.
+export default function CoCreatorManager({ fanworkId }: CoCreatorManagerProps) {
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+
+  const { data: creators = [] } = useQuery<FanworkCreator[]>({
+    queryKey: ["/api/fanworks", fanworkId, "creators"],
+    retry: false,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/fanworks", fanworkId] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update co-creators",
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/api/fanworks/${fanworkId}/creators`, {
+        method: "POST",
+        body: JSON.stringify({ username }),
+      }),
+    onSuccess: () => {
+      toast({
+        title: "Invitation Sent",
+        description: `${username} has been invited to co-create this work.`,
+      });
+      setUsername("");
+      invalidate();
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (userId: number) =>
+      apiRequest(`/api/fanworks/${fanworkId}/creators/${userId}`, { method: "DELETE" }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  return (
+    <Card className="bg-dark-surface border-border">
+      <CardHeader>
+        <CardTitle className="text-xl text-neon-green flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Co-creators
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Co-creators are credited on the work and can edit it and its chapters.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {creators.map((creator) => (
+          <div
+            key={creator.userId}
+            className="flex items-center justify-between gap-4 p-4 rounded-lg bg-dark-elevated border border-border"
+          >
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="font-semibold text-foreground truncate">
+                {creator.pseud?.name ?? getDisplayName(creator.user)}
+              </span>
+              <span className="text-sm text-muted-foreground">@{creator.user.username}</span>
+              {creator.status === "pending" && <Badge variant="secondary">Invited</Badge>}
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              title={creator.status === "pending" ? "Withdraw invitation" : "Remove co-creator"}
+              className="text-red-500"
+              disabled={removeMutation.isPending}
+              onClick={() => removeMutation.mutate(creator.userId)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (username.trim()) inviteMutation.mutate();
+          }}
+        >
+          <Input
+            placeholder="Username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="bg-dark-elevated border-border"
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            className="border-border"
+            disabled={!username.trim() || inviteMutation.isPending}
+          >
+            <UserPlus className="h-4 w-4 mr-1" />
+            Invite
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+interface CommentFormProps {
+  fanworkId: number;
+  parentId?: number;
+  placeholder?: string;
+  onPosted?: () => void;
+  onCancel?: () => void;
+}
+
+export default function CommentForm({
+  fanworkId,
+  parentId,
+  placeholder = "Leave a comment for the creator...",
+  onPosted,
+  onCancel,
+}: CommentFormProps) {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [content, setContent] = useState("");
+  const [guestName, setGuestName] = useState("");
+
+  const commentMutation = useMutation({
+    mutationFn: (text: string) =>
+      apiRequest(`/api/fanworks/${fanworkId}/comments`, {
+        method: "POST",
+        body: JSON.stringify({ content: text, parentId, guestName: isAuthenticated ? undefined : guestName }),
+      }),
+    onSuccess: (comment: { isApproved: boolean }) => {
+      setContent("");
+      if (!comment.isApproved) {
+        toast({
+          title: "Comment Submitted",
+          description: "Your comment will appear once the author approves it.",
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks", fanworkId] });
+      onPosted?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to post comment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim() || (!isAuthenticated && !guestName.trim())) return;
+    commentMutation.mutate(content.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {!isAuthenticated && (
+        <Input
+          placeholder="Your name"
+          value={guestName}
+          onChange={(e) => setGuestName(e.target.value)}
+          maxLength={50}
+          className="bg-dark-elevated border-border"
+        />
+      )}
+      <Textarea
+        placeholder={placeholder}
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        className={`bg-dark-elevated border-border ${parentId ? "min-h-[70px]" : "min-h-[100px]"}`}
+        autoFocus={!!parentId}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          type="submit"
+          size={parentId ? "sm" : "default"}
+          disabled={commentMutation.isPending || !content.trim() || (!isAuthenticated && !guestName.trim())}
+          className="bg-neon-green text-dark-bg hover:bg-neon-green/90"
+        >
+          {commentMutation.isPending ? "Posting..." : parentId ? "Reply" : "Post Comment"}
+        </Button>
+      </div>
+    </form>
+  );
+}
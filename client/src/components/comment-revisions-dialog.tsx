@@ -0,0 +1,76 @@
+import { useQuery } from "@tanstack/react-query";
+import { getDisplayName } from "@/lib/utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { History } from "lucide-react";
+import { format } from "date-fns";
+
+interface CommentRevisions {
+  comment: { content: string; editedAt: string | null; deletedAt: string | null };
+  revisions: {
+    id: number;
+    content: string;
+    createdAt: string;
+    editor: { username: string; firstName: string | null; lastName: string | null } | null;
+  }[];
+}
+
+interface CommentRevisionsDialogProps {
+  commentId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Moderator-only view of what a comment said before each edit or deletion
+export default function CommentRevisionsDialog({ commentId, open, onOpenChange }: CommentRevisionsDialogProps) {
+  const { data, isLoading } = useQuery<CommentRevisions>({
+    queryKey: [`/api/comments/${commentId}/revisions`],
+    enabled: open,
+    retry: false,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-dark-surface border-border max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl text-neon-green flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Comment History
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(2)].map((_, i) => (
+              <div key={i} className="bg-dark-elevated rounded-lg h-16 animate-pulse" />
+            ))}
+          </div>
+        ) : data ? (
+          <div className="space-y-4">
+            <div className="bg-dark-elevated rounded-lg p-3">
+              <div className="text-xs text-neon-green mb-1">Current</div>
+              <p className="text-sm text-foreground whitespace-pre-line">{data.comment.content}</p>
+            </div>
+            {data.revisions.map((revision) => (
+              <div key={revision.id} className="bg-dark-elevated rounded-lg p-3">
+                <div className="text-xs text-muted-foreground mb-1">
+                  Replaced {format(new Date(revision.createdAt), "PPp")} by {getDisplayName(revision.editor)}
+                </div>
+                <p className="text-sm text-foreground whitespace-pre-line">{revision.content}</p>
+              </div>
+            ))}
+            {data.revisions.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center">This comment has never been changed.</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center">Couldn't load the history for this comment.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
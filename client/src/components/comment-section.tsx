@@ -0,0 +1,95 @@
+import { useAuth } from "@/hooks/useAuth";
+import { useComments } from "@/hooks/useComments";
+import CommentForm from "@/components/comment-form";
+import CommentThread from "@/components/comment-thread";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { MessageCircle } from "lucide-react";
+
+interface CommentSectionProps {
+  fanworkId: number;
+  // The work's creators can approve and remove comments
+  canModerate: boolean;
+  commentPolicy: "open" | "registered" | "disabled" | "moderated";
+  commentCount?: number;
+}
+
+export default function CommentSection({
+  fanworkId,
+  canModerate,
+  commentPolicy,
+  commentCount,
+}: CommentSectionProps) {
+  const { isAuthenticated } = useAuth();
+  const {
+    threads,
+    threadCount,
+    maxDepth,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useComments(fanworkId);
+
+  return (
+    <Card className="bg-dark-surface border-border">
+      <CardHeader>
+        <CardTitle className="text-xl text-neon-green flex items-center gap-2">
+          <MessageCircle className="h-5 w-5" />
+          Comments ({commentCount ?? threadCount})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {commentPolicy === "disabled" ? (
+          <p className="text-sm text-muted-foreground">The author has turned off comments on this work.</p>
+        ) : isAuthenticated || commentPolicy === "open" ? (
+          <>
+            {commentPolicy === "moderated" && (
+              <p className="text-sm text-muted-foreground">Comments on this work are held for the author's approval.</p>
+            )}
+            <CommentForm fanworkId={fanworkId} />
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Log in to leave a comment.</p>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="bg-dark-elevated rounded-lg h-20 animate-pulse" />
+            ))}
+          </div>
+        ) : threads.length > 0 ? (
+          <div className="space-y-6">
+            {threads.map((thread) => (
+              <CommentThread
+                key={thread.id}
+                comment={thread}
+                fanworkId={fanworkId}
+                canModerate={canModerate}
+                maxDepth={maxDepth}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No comments yet. Be the first to leave some feedback!
+          </p>
+        )}
+
+        {hasNextPage && (
+          <div className="text-center">
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="border-neon-green text-neon-green hover:bg-neon-green hover:text-dark-bg"
+            >
+              {isFetchingNextPage ? "Loading..." : "Load More Comments"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { User } from "@shared/schema";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { CommentThread as CommentThreadData } from "@/hooks/useComments";
+import { getDisplayName } from "@/lib/utils";
+import CommentForm from "@/components/comment-form";
+import CommentRevisionsDialog from "@/components/comment-revisions-dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Ban, Check, ChevronDown, ChevronRight, History, Pencil, Reply, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface CommentThreadProps {
+  comment: CommentThreadData;
+  fanworkId: number;
+  canModerate: boolean;
+  maxDepth: number;
+}
+
+export default function CommentThread({ comment, fanworkId, canModerate, maxDepth }: CommentThreadProps) {
+  const { user, isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [isReplying, setIsReplying] = useState(false);
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState(comment.content);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const currentUser = user as User | undefined;
+  const isDeleted = !!comment.deletedAt;
+  const isOwn = !!currentUser && currentUser.id === comment.userId;
+  const isModerator = currentUser?.role === "moderator" || currentUser?.role === "admin";
+  const canReply = isAuthenticated && !isDeleted && comment.isApproved && comment.depth < maxDepth;
+  const displayName = comment.user ? getDisplayName(comment.user) : comment.guestName || "Anonymous";
+
+  const onMutationError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update comment",
+      variant: "destructive",
+    });
+  };
+
+  const editMutation = useMutation({
+    mutationFn: (content: string) =>
+      apiRequest(`/api/comments/${comment.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ content }),
+      }),
+    onSuccess: () => {
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks", fanworkId, "comments"] });
+    },
+    onError: onMutationError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest(`/api/comments/${comment.id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks", fanworkId, "comments"] });
+    },
+    onError: onMutationError,
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: () => apiRequest(`/api/comments/${comment.id}/approve`, { method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks", fanworkId, "comments"] });
+    },
+    onError: onMutationError,
+  });
+
+  const blockMutation = useMutation({
+    mutationFn: () => apiRequest(`/api/users/${comment.userId}/block`, { method: "POST" }),
+    onSuccess: () => {
+      toast({
+        title: "User Blocked",
+        description: `${displayName} can no longer comment on your works.`,
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const handleBlock = () => {
+    if (window.confirm(`Block ${displayName}? They won't be able to comment on any of your works.`)) {
+      blockMutation.mutate();
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm("Delete this comment? Replies to it will stay visible.")) {
+      deleteMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="flex gap-3">
+      <Avatar className="h-8 w-8">
+        <AvatarImage src={comment.user?.profileImageUrl || ""} />
+        <AvatarFallback className="bg-portal-blue text-white text-xs">
+          {displayName[0]}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-semibold text-foreground">
+            {isDeleted ? "[deleted]" : displayName}
+          </span>
+          {!comment.user && comment.guestName && !isDeleted && (
+            <span className="text-muted-foreground text-xs">(guest)</span>
+          )}
+          <span className="text-muted-foreground">
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+          </span>
+          {comment.editedAt && !isDeleted && (
+            <span className="text-muted-foreground text-xs">(edited)</span>
+          )}
+          {!comment.isApproved && (
+            <Badge variant="secondary" className="text-xs text-warning-amber">Awaiting approval</Badge>
+          )}
+        </div>
+
+        {isEditing ? (
+          <div className="mt-2 space-y-2">
+            <Textarea
+              value={editContent}
+              onChange={(e) => setEditContent(e.target.value)}
+              className="bg-dark-elevated border-border min-h-[70px]"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setIsEditing(false);
+                  setEditContent(comment.content);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => editMutation.mutate(editContent.trim())}
+                disabled={editMutation.isPending || !editContent.trim()}
+                className="bg-neon-green text-dark-bg hover:bg-neon-green/90"
+              >
+                {editMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className={`text-muted-foreground text-sm whitespace-pre-line mt-1 ${isDeleted ? "italic" : ""}`}>
+            {comment.content}
+          </p>
+        )}
+
+        <div className="flex items-center gap-2 mt-1">
+          {canReply && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsReplying(!isReplying)}
+              className="h-7 px-2 text-xs text-muted-foreground"
+            >
+              <Reply className="h-3 w-3 mr-1" />
+              Reply
+            </Button>
+          )}
+          {isOwn && !isDeleted && !isEditing && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsEditing(true)}
+              className="h-7 px-2 text-xs text-muted-foreground"
+            >
+              <Pencil className="h-3 w-3 mr-1" />
+              Edit
+            </Button>
+          )}
+          {canModerate && !comment.isApproved && !isDeleted && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => approveMutation.mutate()}
+              disabled={approveMutation.isPending}
+              className="h-7 px-2 text-xs text-neon-green"
+            >
+              <Check className="h-3 w-3 mr-1" />
+              Approve
+            </Button>
+          )}
+          {(isOwn || canModerate || isModerator) && !isDeleted && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              className="h-7 px-2 text-xs text-muted-foreground"
+            >
+              <Trash2 className="h-3 w-3 mr-1" />
+              Delete
+            </Button>
+          )}
+          {canModerate && !isOwn && comment.user && !isDeleted && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleBlock}
+              disabled={blockMutation.isPending}
+              className="h-7 px-2 text-xs text-muted-foreground"
+            >
+              <Ban className="h-3 w-3 mr-1" />
+              Block
+            </Button>
+          )}
+          {isModerator && (comment.editedAt || isDeleted) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowHistory(true)}
+              className="h-7 px-2 text-xs text-warning-amber"
+            >
+              <History className="h-3 w-3 mr-1" />
+              History
+            </Button>
+          )}
+          {comment.replyCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsCollapsed(!isCollapsed)}
+              className="h-7 px-2 text-xs text-portal-blue"
+            >
+              {isCollapsed ? <ChevronRight className="h-3 w-3 mr-1" /> : <ChevronDown className="h-3 w-3 mr-1" />}
+              {isCollapsed ? "Show" : "Hide"} {comment.replyCount} {comment.replyCount === 1 ? "reply" : "replies"}
+            </Button>
+          )}
+        </div>
+
+        {isReplying && (
+          <div className="mt-2">
+            <CommentForm
+              fanworkId={fanworkId}
+              parentId={comment.id}
+              placeholder={`Reply to ${displayName}...`}
+              onPosted={() => {
+                setIsReplying(false);
+                setIsCollapsed(false);
+              }}
+              onCancel={() => setIsReplying(false)}
+            />
+          </div>
+        )}
+
+        {isModerator && (
+          <CommentRevisionsDialog commentId={comment.id} open={showHistory} onOpenChange={setShowHistory} />
+        )}
+
+        {!isCollapsed && comment.replies.length > 0 && (
+          <div className="mt-3 space-y-4 border-l border-border pl-4">
+            {comment.replies.map((reply) => (
+              <CommentThread
+                key={reply.id}
+                comment={reply}
+                fanworkId={fanworkId}
+                canModerate={canModerate}
+                maxDepth={maxDepth}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import { useState } from "react";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { queryClient } from "@/lib/queryClient";
+import AuthorCredit from "@/components/author-credit";
+import { getCategoryLabel, getWarningLabel } from "@/lib/archive";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -9,8 +12,8 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { Heart, MessageCircle, Bookmark, BookOpen, Clock } from "lucide-react";
-import { formatDistanceToNow } from "date-fns";
+import { Heart, MessageCircle, Bookmark, BookOpen, Clock, AlertTriangle } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
 
 interface ContentCardProps {
   fanwork: any;
@@ -25,19 +28,16 @@ export default function ContentCard({
 }: ContentCardProps) {
   const { user, isAuthenticated } = useAuth();
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
   const [isExpanded, setIsExpanded] = useState(false);
 
-  const { data: interactions } = useQuery({
-    queryKey: ["/api/fanworks", fanwork.id, "interactions"],
-    enabled: isAuthenticated,
-    retry: false,
-  });
+  // Viewer state arrives with the listing, so cards don't each fetch it
+  const interactions = fanwork.viewer;
 
   const likeMutation = useMutation({
-    mutationFn: () => apiRequest("POST", `/api/fanworks/${fanwork.id}/like`),
+    mutationFn: () => apiRequest(`/api/fanworks/${fanwork.id}/like`, { method: "POST" }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/fanworks"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/fanworks", fanwork.id, "interactions"] });
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -60,10 +60,9 @@ export default function ContentCard({
   });
 
   const bookmarkMutation = useMutation({
-    mutationFn: () => apiRequest("POST", `/api/fanworks/${fanwork.id}/bookmark`),
+    mutationFn: () => apiRequest(`/api/fanworks/${fanwork.id}/bookmark`, { method: "POST" }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/fanworks"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/fanworks", fanwork.id, "interactions"] });
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -95,6 +94,31 @@ export default function ContentCard({
     }
   };
 
+  const openFanwork = () => setLocation(`/works/${fanwork.id}`);
+
+  // Only a work's creators ever see it before it's published
+  const statusBadge = fanwork.status === "draft" ? (
+    <Badge variant="outline" className="text-xs border-warning-amber text-warning-amber ml-2">Draft</Badge>
+  ) : fanwork.status === "scheduled" ? (
+    <Badge variant="outline" className="text-xs border-portal-blue text-portal-blue ml-2">
+      {fanwork.publishAt ? `Scheduled ${format(new Date(fanwork.publishAt), "MMM d, HH:mm")}` : "Scheduled"}
+    </Badge>
+  ) : null;
+
+  const warnings: string[] = fanwork.warnings ?? [];
+  const hasWarnings = warnings.some((warning) => warning !== "none");
+  const warningLine = warnings.length > 0 && (
+    <p className={`flex items-start gap-1 text-xs mb-2 ${hasWarnings ? "text-warning-amber" : "text-muted-foreground"}`}>
+      <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+      <span>
+        {warnings.map(getWarningLabel).join(", ")}
+        {fanwork.categories?.length > 0 && (
+          <span className="text-muted-foreground"> · {fanwork.categories.map(getCategoryLabel).join(", ")}</span>
+        )}
+      </span>
+    </p>
+  );
+
   const handleLike = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (!isAuthenticated) {
@@ -123,14 +147,17 @@ export default function ContentCard({
 
   if (viewMode === "list") {
     return (
-      <Card className="content-card overflow-hidden">
+      <Card
+        className="content-card overflow-hidden cursor-pointer"
+        onClick={openFanwork}
+      >
         <CardContent className="p-4">
           <div className="flex gap-4">
             {fanwork.type === "artwork" || fanwork.type === "comic" ? (
               <div className="w-24 h-24 flex-shrink-0">
-                {fanwork.imageUrl ? (
+                {fanwork.contentUrl ? (
                   <img 
-                    src={fanwork.imageUrl} 
+                    src={fanwork.contentUrl} 
                     alt={fanwork.title}
                     className="w-full h-full object-cover rounded"
                   />
@@ -149,6 +176,7 @@ export default function ContentCard({
             <div className="flex-1 min-w-0">
               <div className="flex items-start justify-between mb-2">
                 <h3 className="font-semibold text-lg text-foreground truncate">{fanwork.title}</h3>
+                {statusBadge}
                 <Badge className={`${getRatingColor(fanwork.rating)} text-white text-xs`}>
                   {fanwork.rating.replace("-", " ")}
                 </Badge>
@@ -156,16 +184,22 @@ export default function ContentCard({
 
               {showAuthor && fanwork.author && (
                 <p className="text-muted-foreground text-sm mb-2">
-                  by {fanwork.author.firstName || fanwork.author.lastName 
-                    ? `${fanwork.author.firstName || ""} ${fanwork.author.lastName || ""}`.trim()
-                    : "Anonymous"
-                  }
+                  <AuthorCredit author={fanwork.author} pseud={fanwork.pseud} coCreators={fanwork.coCreators} />
                 </p>
               )}
 
-              <p className="text-muted-foreground text-sm mb-3 line-clamp-2">
-                {fanwork.description || "No description available"}
-              </p>
+              {warningLine}
+
+              {fanwork.searchHeadline ? (
+                <p
+                  className="search-headline text-muted-foreground text-sm mb-3 line-clamp-2"
+                  dangerouslySetInnerHTML={{ __html: `…${fanwork.searchHeadline}…` }}
+                />
+              ) : (
+                <p className="text-muted-foreground text-sm mb-3 line-clamp-2">
+                  {fanwork.description || "No description available"}
+                </p>
+              )}
 
               <div className="flex items-center justify-between">
                 <div className="flex flex-wrap gap-1">
@@ -216,7 +250,7 @@ export default function ContentCard({
                   </Button>
                   <span className="flex items-center">
                     <Clock className="h-4 w-4 mr-1" />
-                    {formatDistanceToNow(new Date(fanwork.createdAt), { addSuffix: true })}
+                    {formatDistanceToNow(new Date(fanwork.publishedAt ?? fanwork.createdAt), { addSuffix: true })}
                   </span>
                 </div>
               </div>
@@ -228,11 +262,14 @@ export default function ContentCard({
   }
 
   return (
-    <Card className="content-card overflow-hidden">
+    <Card
+      className="content-card overflow-hidden cursor-pointer"
+      onClick={openFanwork}
+    >
       {fanwork.type === "artwork" || fanwork.type === "comic" ? (
-        fanwork.imageUrl ? (
+        fanwork.contentUrl ? (
           <img 
-            src={fanwork.imageUrl} 
+            src={fanwork.contentUrl} 
             alt={fanwork.title}
             className="w-full h-48 object-cover"
           />
@@ -255,6 +292,7 @@ export default function ContentCard({
           <h3 className="font-semibold text-lg leading-tight text-foreground">
             {fanwork.title}
           </h3>
+          {statusBadge}
           <Badge className={`${getRatingColor(fanwork.rating)} text-white text-xs ml-2`}>
             {fanwork.rating.replace("-", " ")}
           </Badge>
@@ -262,24 +300,31 @@ export default function ContentCard({
 
         {showAuthor && fanwork.author && (
           <p className="text-muted-foreground text-sm mb-3">
-            by {fanwork.author.firstName || fanwork.author.lastName 
-              ? `${fanwork.author.firstName || ""} ${fanwork.author.lastName || ""}`.trim()
-              : "Anonymous"
-            }
+            <AuthorCredit author={fanwork.author} pseud={fanwork.pseud} coCreators={fanwork.coCreators} />
           </p>
         )}
 
-        <p className="text-muted-foreground text-sm mb-3 line-clamp-3">
-          {fanwork.description || "No description available"}
-        </p>
+        {warningLine}
+
+        {fanwork.searchHeadline ? (
+          <p
+            className="search-headline text-muted-foreground text-sm mb-3 line-clamp-3"
+            // The server escapes the story text and only adds <mark> tags around matches
+            dangerouslySetInnerHTML={{ __html: `…${fanwork.searchHeadline}…` }}
+          />
+        ) : (
+          <p className="text-muted-foreground text-sm mb-3 line-clamp-3">
+            {fanwork.description || "No description available"}
+          </p>
+        )}
 
         {fanwork.type === "fanfiction" && (
           <div className="flex items-center gap-4 text-xs text-muted-foreground mb-3">
-            {fanwork.wordCount && (
+            {fanwork.wordCount > 0 && (
               <span>{fanwork.wordCount.toLocaleString()} words</span>
             )}
-            {fanwork.chapterCount && (
-              <span>{fanwork.chapterCount} chapters</span>
+            {fanwork.chapterCount > 0 && (
+              <span>{fanwork.chapterCount}/{fanwork.expectedChapters ?? "?"} chapters</span>
             )}
             {fanwork.isComplete && (
               <Badge variant="secondary" className="text-xs">Complete</Badge>
@@ -335,7 +380,7 @@ export default function ContentCard({
               {fanwork.counts?.bookmarks || 0}
             </Button>
           </div>
-          <span>{formatDistanceToNow(new Date(fanwork.createdAt), { addSuffix: true })}</span>
+          <span>{formatDistanceToNow(new Date(fanwork.publishedAt ?? fanwork.createdAt), { addSuffix: true })}</span>
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { archiveWarnings } from "@/lib/archive";
+import { useContentFilters, type ContentFilters } from "@/hooks/useContentFilters";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Filter, X } from "lucide-react";
+
+const ratings = [
+  { value: "all-ages", label: "All Ages" },
+  { value: "teen", label: "Teen+" },
+  { value: "mature", label: "Mature" },
+  { value: "explicit", label: "Explicit" },
+];
+
+const emptyFilters: ContentFilters = {
+  excludeTags: [],
+  excludeWarnings: [],
+  excludeRatings: [],
+  excludeAuthors: [],
+};
+
+type ListKey = "excludeTags" | "excludeAuthors";
+
+// Edits the signed-in user's saved content filters. Works matching any of
+// them are left out of every listing until the reader chooses to show them.
+export default function ContentFilterManager() {
+  const { toast } = useToast();
+  const { data: saved } = useContentFilters();
+  const [filters, setFilters] = useState<ContentFilters>(emptyFilters);
+  const [tagInput, setTagInput] = useState("");
+  const [authorInput, setAuthorInput] = useState("");
+
+  useEffect(() => {
+    if (saved) setFilters(saved);
+  }, [saved]);
+
+  const saveMutation = useMutation({
+    mutationFn: (): Promise<ContentFilters> =>
+      apiRequest("/api/users/me/content-filters", {
+        method: "PUT",
+        body: JSON.stringify(filters),
+      }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/users/me/content-filters"], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Filters saved",
+        description: "Listings will now leave out works matching your filters.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save filters",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (key: "excludeWarnings" | "excludeRatings", value: string, checked: boolean) => {
+    setFilters((current) => ({
+      ...current,
+      [key]: checked ? [...current[key], value] : current[key].filter((entry) => entry !== value),
+    }));
+  };
+
+  const addEntries = (key: ListKey, input: string) => {
+    const entries = input
+      .split(",")
+      .map((entry) => entry.trim().replace(/^#/, ""))
+      .filter(Boolean);
+    setFilters((current) => ({
+      ...current,
+      [key]: Array.from(new Set([...current[key], ...entries])),
+    }));
+  };
+
+  const removeEntry = (key: ListKey, value: string) => {
+    setFilters((current) => ({ ...current, [key]: current[key].filter((entry) => entry !== value) }));
+  };
+
+  const listEditor = (key: ListKey, input: string, setInput: (value: string) => void, placeholder: string, prefix: string) => (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={input}
+          placeholder={placeholder}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addEntries(key, input);
+              setInput("");
+            }
+          }}
+          className="bg-dark-elevated border-border"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          className="border-border"
+          disabled={!input.trim()}
+          onClick={() => {
+            addEntries(key, input);
+            setInput("");
+          }}
+        >
+          Add
+        </Button>
+      </div>
+      {filters[key].length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {filters[key].map((entry) => (
+            <Badge key={entry} variant="secondary" className="gap-1">
+              {prefix}{entry}
+              <button type="button" onClick={() => removeEntry(key, entry)} aria-label={`Remove ${entry}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Card className="bg-dark-surface border-border">
+      <CardHeader>
+        <CardTitle className="text-xl text-neon-green flex items-center gap-2">
+          <Filter className="h-5 w-5" />
+          Content Filters
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Works matching any of these are hidden from every listing you browse. You can show them
+          again for a while with the "Show filtered works" switch.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Tags</Label>
+          {listEditor("excludeTags", tagInput, setTagInput, "Tags to hide, comma-separated", "#")}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Archive Warnings</Label>
+          <div className="space-y-2">
+            {archiveWarnings.filter((warning) => warning.value !== "none").map((warning) => (
+              <label key={warning.value} className="flex items-center space-x-2 cursor-pointer">
+                <Checkbox
+                  checked={filters.excludeWarnings.includes(warning.value)}
+                  onCheckedChange={(checked) => toggle("excludeWarnings", warning.value, checked as boolean)}
+                  className="data-[state=checked]:bg-neon-green data-[state=checked]:border-neon-green"
+                />
+                <span className="text-sm text-muted-foreground">{warning.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Ratings</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {ratings.map((rating) => (
+              <label key={rating.value} className="flex items-center space-x-2 cursor-pointer">
+                <Checkbox
+                  checked={filters.excludeRatings.includes(rating.value)}
+                  onCheckedChange={(checked) => toggle("excludeRatings", rating.value, checked as boolean)}
+                  className="data-[state=checked]:bg-neon-green data-[state=checked]:border-neon-green"
+                />
+                <span className="text-sm text-muted-foreground">{rating.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Authors</Label>
+          {listEditor("excludeAuthors", authorInput, setAuthorInput, "Usernames to hide, comma-separated", "@")}
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            disabled={saveMutation.isPending}
+            onClick={() => saveMutation.mutate()}
+            className="bg-neon-green text-dark-bg hover:bg-neon-green/90"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Filters"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
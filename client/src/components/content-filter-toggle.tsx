@@ -0,0 +1,30 @@
+import { Link } from "wouter";
+import { hasContentFilters, setShowFiltered, useContentFilters, useShowFiltered } from "@/hooks/useContentFilters";
+import { Switch } from "@/components/ui/switch";
+import { Filter } from "lucide-react";
+
+interface ContentFilterToggleProps {
+  className?: string;
+}
+
+// Lets a reader with saved filters briefly see the works those filters hide.
+// Renders nothing for guests and readers who haven't set any filters.
+export default function ContentFilterToggle({ className = "" }: ContentFilterToggleProps) {
+  const { data: filters } = useContentFilters();
+  const showFiltered = useShowFiltered();
+
+  if (!hasContentFilters(filters)) return null;
+
+  return (
+    <div className={`flex items-center gap-2 text-sm text-muted-foreground ${className}`}>
+      <Filter className="h-4 w-4" />
+      <label className="flex items-center gap-2 cursor-pointer">
+        <Switch checked={showFiltered} onCheckedChange={setShowFiltered} />
+        Show filtered works
+      </label>
+      <Link href="/settings" className="ml-auto text-xs hover:text-neon-green">
+        Edit filters
+      </Link>
+    </div>
+  );
+}
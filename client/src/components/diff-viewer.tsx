@@ -0,0 +1,58 @@
+export interface DiffPart {
+  type: "added" | "removed" | "unchanged";
+  value: string;
+}
+
+interface DiffViewerProps {
+  parts: DiffPart[];
+  // Long unchanged stretches are folded down to a few lines of context
+  collapseUnchanged?: boolean;
+  className?: string;
+}
+
+const CONTEXT_LINES = 3;
+
+function foldUnchanged(value: string): string | null {
+  const lines = value.split("\n");
+  if (lines.length <= CONTEXT_LINES * 2 + 1) return null;
+  const hidden = lines.length - CONTEXT_LINES * 2;
+  return [
+    ...lines.slice(0, CONTEXT_LINES),
+    `⋯ ${hidden} unchanged lines ⋯`,
+    ...lines.slice(-CONTEXT_LINES),
+  ].join("\n");
+}
+
+// Renders a server-computed diff inline: insertions highlighted, deletions struck through
+export default function DiffViewer({ parts, collapseUnchanged = false, className = "" }: DiffViewerProps) {
+  if (parts.every((part) => part.type === "unchanged")) {
+    return <p className="text-sm text-muted-foreground italic">No changes</p>;
+  }
+
+  return (
+    <div className={`text-sm text-foreground whitespace-pre-wrap break-words font-mono ${className}`}>
+      {parts.map((part, index) => {
+        if (part.type === "added") {
+          return (
+            <ins key={index} className="bg-green-900/60 text-green-200 no-underline">
+              {part.value}
+            </ins>
+          );
+        }
+        if (part.type === "removed") {
+          return (
+            <del key={index} className="bg-red-900/60 text-red-200">
+              {part.value}
+            </del>
+          );
+        }
+        const folded = collapseUnchanged ? foldUnchanged(part.value) : null;
+        return (
+          <span key={index} className={folded ? "text-muted-foreground" : undefined}>
+            {folded ?? part.value}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
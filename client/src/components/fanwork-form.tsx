@@ -0,0 +1,620 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { z } from "zod";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import ArchiveChecklist from "@/components/archive-checklist";
+import { useAuth } from "@/hooks/useAuth";
+import { usePseuds } from "@/hooks/usePseuds";
+import type { EnrichedFanwork, User } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { Upload, FileImage, BookOpen, Pencil, X } from "lucide-react";
+import { format } from "date-fns";
+
+const uploadSchema = z.object({
+  title: z.string().min(1, "Title is required").max(255, "Title too long"),
+  description: z.string().optional(),
+  type: z.enum(["artwork", "fanfiction", "comic"]),
+  rating: z.enum(["all-ages", "teen", "mature", "explicit"]),
+  warnings: z.array(z.string()).min(1, "Choose at least one archive warning"),
+  categories: z.array(z.string()),
+  commentPolicy: z.enum(["open", "registered", "disabled", "moderated"]),
+  pseudId: z.number().int().optional(),
+  textContent: z.string().optional(),
+  expectedChapters: z.number().int().positive().optional(),
+  isComplete: z.boolean().default(false),
+  tags: z.string(),
+  giftRecipients: z.string(),
+  status: z.enum(["draft", "scheduled", "published"]),
+  // A datetime-local value, in the browser's time zone
+  publishAt: z.string(),
+}).refine((data) => data.status !== "scheduled" || !!data.publishAt, {
+  message: "Pick when to publish",
+  path: ["publishAt"],
+});
+
+type UploadFormData = z.infer<typeof uploadSchema>;
+
+interface FanworkFormProps {
+  // When given, the form edits this fanwork instead of creating a new one
+  fanwork?: EnrichedFanwork;
+}
+
+export default function FanworkForm({ fanwork }: FanworkFormProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const { user } = useAuth();
+  const { data: pseuds = [] } = usePseuds((user as User | undefined)?.username);
+
+  const form = useForm<UploadFormData>({
+    resolver: zodResolver(uploadSchema),
+    defaultValues: fanwork ? {
+      title: fanwork.title,
+      description: fanwork.description || "",
+      // Stored as plain strings, but only ever one of the form's options
+      type: fanwork.type as UploadFormData["type"],
+      rating: fanwork.rating as UploadFormData["rating"],
+      warnings: fanwork.warnings ?? [],
+      categories: fanwork.categories ?? [],
+      commentPolicy: fanwork.commentPolicy as UploadFormData["commentPolicy"],
+      pseudId: fanwork.pseudId ?? undefined,
+      textContent: fanwork.textContent || "",
+      expectedChapters: fanwork.expectedChapters ?? undefined,
+      isComplete: fanwork.isComplete,
+      tags: fanwork.tags.map((tag) => tag.name).join(", ") || "",
+      giftRecipients: fanwork.giftedTo.map((recipient) => recipient.username).join(", ") || "",
+      status: fanwork.status as UploadFormData["status"],
+      publishAt: fanwork.status === "scheduled" && fanwork.publishAt
+        ? format(new Date(fanwork.publishAt), "yyyy-MM-dd'T'HH:mm")
+        : "",
+    } : {
+      title: "",
+      description: "",
+      type: "artwork",
+      rating: "all-ages",
+      warnings: [],
+      categories: [],
+      commentPolicy: "registered",
+      pseudId: undefined,
+      textContent: "",
+      expectedChapters: undefined,
+      isComplete: false,
+      tags: "",
+      giftRecipients: "",
+      status: "published",
+      publishAt: "",
+    },
+  });
+
+  const isEditing = !!fanwork;
+  // Once live, a work can't go back to being a draft
+  const isPublished = isEditing && fanwork.status === "published";
+  // Once chapters exist the story text lives in them, not on the work itself
+  const hasChapters = isEditing && fanwork.textContent === null && fanwork.chapterCount > 0;
+
+  const watchedType = form.watch("type");
+  const watchedStatus = form.watch("status");
+
+  // New works are credited to the default pseud unless another is picked
+  useEffect(() => {
+    if (form.getValues("pseudId") !== undefined) return;
+    const defaultPseud = pseuds.find((pseud) => pseud.isDefault);
+    if (defaultPseud) {
+      form.setValue("pseudId", defaultPseud.id);
+    }
+  }, [pseuds]);
+
+  const uploadMutation = useMutation({
+    mutationFn: async (data: UploadFormData) => {
+      const formData = new FormData();
+      
+      Object.entries(data).forEach(([key, value]) => {
+        if (isEditing && key === "type") return;
+        if (hasChapters && key === "textContent") return;
+        if (key === "publishAt" || (isPublished && key === "status")) return;
+        if (value !== undefined && value !== null) {
+          formData.append(key, value.toString());
+        }
+      });
+
+      if (data.status === "scheduled" && !isPublished) {
+        formData.append("publishAt", new Date(data.publishAt).toISOString());
+      }
+
+      // Send a blank total when editing so a cleared field clears it on the server
+      if (isEditing && data.expectedChapters === undefined) {
+        formData.append("expectedChapters", "");
+      }
+
+      if (selectedFile) {
+        formData.append("file", selectedFile);
+      }
+
+      return await apiRequest(isEditing ? `/api/fanworks/${fanwork.id}` : "/api/fanworks", {
+        method: isEditing ? "PATCH" : "POST",
+        body: formData,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: isEditing
+          ? "Your fanwork has been updated."
+          : "Your fanwork has been uploaded successfully!",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks"] });
+      setLocation(isEditing ? `/works/${fanwork.id}` : "/");
+    },
+    onError: (error) => {
+      toast({
+        title: isEditing ? "Update Failed" : "Upload Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelect = (file: File) => {
+    const allowedTypes = ["image/jpeg", "image/jpg", "image/png", "image/gif", "image/webp"];
+    if (!allowedTypes.includes(file.type)) {
+      toast({
+        title: "Invalid File Type",
+        description: "Please select an image file (JPEG, PNG, GIF, or WebP)",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (file.size > 10 * 1024 * 1024) {
+      toast({
+        title: "File Too Large",
+        description: "Please select a file smaller than 10MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSelectedFile(file);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      handleFileSelect(file);
+    }
+  };
+
+  const onSubmit = (data: UploadFormData) => {
+    uploadMutation.mutate(data);
+  };
+
+  return (
+    <Card className="bg-dark-surface border-border">
+      <CardHeader>
+        <CardTitle className="text-2xl text-neon-green flex items-center gap-2">
+          {isEditing ? <Pencil className="h-6 w-6" /> : <Upload className="h-6 w-6" />}
+          {isEditing ? "Edit Fanwork" : "Upload New Fanwork"}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid md:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="title"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Title *</FormLabel>
+                      <FormControl>
+                        <Input 
+                          placeholder="Enter fanwork title..." 
+                          className="bg-dark-elevated border-border"
+                          {...field} 
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {pseuds.length > 1 && (
+                  <FormField
+                    control={form.control}
+                    name="pseudId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Publish As</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(parseInt(value))}
+                          value={field.value?.toString()}
+                        >
+                          <FormControl>
+                            <SelectTrigger className="bg-dark-elevated border-border">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {pseuds.map((pseud) => (
+                              <SelectItem key={pseud.id} value={pseud.id.toString()}>
+                                {pseud.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Content Type *</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isEditing}>
+                        <FormControl>
+                          <SelectTrigger className="bg-dark-elevated border-border">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="artwork">
+                            <div className="flex items-center gap-2">
+                              <FileImage className="h-4 w-4" />
+                              Artwork
+                            </div>
+                          </SelectItem>
+                          <SelectItem value="fanfiction">
+                            <div className="flex items-center gap-2">
+                              <BookOpen className="h-4 w-4" />
+                              Fanfiction
+                            </div>
+                          </SelectItem>
+                          <SelectItem value="comic">
+                            <div className="flex items-center gap-2">
+                              <FileImage className="h-4 w-4" />
+                              Comic
+                            </div>
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="rating"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Content Rating *</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="bg-dark-elevated border-border">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="all-ages">All Ages</SelectItem>
+                          <SelectItem value="teen">Teen+</SelectItem>
+                          <SelectItem value="mature">Mature</SelectItem>
+                          <SelectItem value="explicit">Explicit</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="warnings"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Archive Warnings *</FormLabel>
+                      <ArchiveChecklist kind="warnings" value={field.value} onChange={field.onChange} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="categories"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Categories</FormLabel>
+                      <ArchiveChecklist kind="categories" value={field.value} onChange={field.onChange} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="commentPolicy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Who Can Comment</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="bg-dark-elevated border-border">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="open">Anyone, including guests</SelectItem>
+                          <SelectItem value="registered">Registered users only</SelectItem>
+                          <SelectItem value="moderated">Hold comments for my approval</SelectItem>
+                          <SelectItem value="disabled">Nobody (comments off)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {!isPublished && (
+                  <FormField
+                    control={form.control}
+                    name="status"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Publishing</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="bg-dark-elevated border-border">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="published">Publish now</SelectItem>
+                            <SelectItem value="scheduled">Schedule for later</SelectItem>
+                            <SelectItem value="draft">Save as draft</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {!isPublished && watchedStatus === "scheduled" && (
+                  <FormField
+                    control={form.control}
+                    name="publishAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Publish At *</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="datetime-local"
+                            className="bg-dark-elevated border-border"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tags (comma-separated)</FormLabel>
+                      <FormControl>
+                        <Input 
+                          placeholder="rickorty, angst, hurt-comfort..."
+                          className="bg-dark-elevated border-border"
+                          {...field} 
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="giftRecipients"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Gift To (usernames, comma-separated)</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Leave blank if this isn't a gift"
+                          className="bg-dark-elevated border-border"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="space-y-4">
+                {(watchedType === "artwork" || watchedType === "comic") && (
+                  <div>
+                    <FormLabel>{isEditing ? "Replace Image" : "Image Upload *"}</FormLabel>
+                    <div
+                      className={`upload-area rounded-lg p-6 text-center transition-colors ${
+                        dragOver ? "border-portal-blue bg-portal-blue/10" : ""
+                      }`}
+                      onDrop={handleDrop}
+                      onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+                      onDragLeave={() => setDragOver(false)}
+                    >
+                      {selectedFile ? (
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm text-foreground">{selectedFile.name}</span>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setSelectedFile(null)}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                          <FileImage className="h-12 w-12 text-neon-green mx-auto mb-4" />
+                          <p className="text-sm text-muted-foreground mb-3">
+                            Drag & drop an image or{" "}
+                            <label className="text-neon-green cursor-pointer hover:underline">
+                              browse files
+                              <input
+                                type="file"
+                                className="hidden"
+                                accept="image/*"
+                                onChange={(e) => {
+                                  const file = e.target.files?.[0];
+                                  if (file) handleFileSelect(file);
+                                }}
+                              />
+                            </label>
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            JPEG, PNG, GIF, WebP up to 10MB
+                          </p>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {watchedType === "fanfiction" && (
+                  <div className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="expectedChapters"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Total Chapters</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number"
+                              placeholder="? (leave blank if unsure)"
+                              className="bg-dark-elevated border-border"
+                              {...field}
+                              onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="isComplete"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              className="data-[state=checked]:bg-neon-green data-[state=checked]:border-neon-green"
+                            />
+                          </FormControl>
+                          <div className="space-y-1 leading-none">
+                            <FormLabel>Mark as Complete</FormLabel>
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea 
+                      placeholder="Describe your fanwork..."
+                      className="bg-dark-elevated border-border min-h-[100px]"
+                      {...field} 
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {watchedType === "fanfiction" && !hasChapters && (
+              <FormField
+                control={form.control}
+                name="textContent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Story Content</FormLabel>
+                    <FormControl>
+                      <Textarea 
+                        placeholder="Paste your story here..."
+                        className="bg-dark-elevated border-border min-h-[300px] font-mono"
+                        {...field} 
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="flex justify-end space-x-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setLocation(isEditing ? `/works/${fanwork.id}` : "/")}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={uploadMutation.isPending}
+                className="bg-neon-green text-dark-bg hover:bg-neon-green/90"
+              >
+                {isEditing
+                  ? uploadMutation.isPending ? "Saving..." : "Save Changes"
+                  : uploadMutation.isPending ? "Uploading..." : "Upload Fanwork"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
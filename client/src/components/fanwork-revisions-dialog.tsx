@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getDisplayName } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import DiffViewer, { type DiffPart } from "@/components/diff-viewer";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { History, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+
+interface FanworkRevisions {
+  current: { title: string; updatedAt: string; wordCount: number };
+  revisions: {
+    id: number;
+    title: string;
+    createdAt: string;
+    wordCount: number;
+    editor: { username: string; firstName: string | null; lastName: string | null } | null;
+  }[];
+}
+
+interface RevisionDiff {
+  from: { id: number | "current"; title: string; createdAt: string };
+  to: { id: number | "current"; title: string; createdAt: string };
+  changes: {
+    title: DiffPart[];
+    description: DiffPart[];
+    textContent: DiffPart[];
+  };
+}
+
+interface FanworkRevisionsDialogProps {
+  fanworkId: number;
+  // Creators may restore a revision; moderators only look
+  canRestore: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Compares any two versions of a work's title, description and text
+export default function FanworkRevisionsDialog({ fanworkId, canRestore, open, onOpenChange }: FanworkRevisionsDialogProps) {
+  const { toast } = useToast();
+  const [from, setFrom] = useState<string | undefined>(undefined);
+  const [to, setTo] = useState("current");
+  const [mode, setMode] = useState<"line" | "word">("word");
+
+  const { data, isLoading } = useQuery<FanworkRevisions>({
+    queryKey: ["/api/fanworks", fanworkId, "revisions"],
+    enabled: open,
+    retry: false,
+  });
+
+  // Start by comparing the latest revision with the work as it is now
+  useEffect(() => {
+    if (from === undefined && data?.revisions.length) {
+      setFrom(data.revisions[0].id.toString());
+    }
+  }, [data]);
+
+  const { data: diff, isLoading: isLoadingDiff } = useQuery<RevisionDiff>({
+    queryKey: ["/api/fanworks", fanworkId, "revisions", "diff", { from, to, mode }],
+    enabled: open && from !== undefined,
+    retry: false,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (revisionId: number) =>
+      apiRequest(`/api/fanworks/${fanworkId}/revisions/${revisionId}/restore`, { method: "POST" }),
+    onSuccess: () => {
+      toast({
+        title: "Restored",
+        description: "The work has been restored to the selected revision.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks", fanworkId] });
+      setFrom(undefined);
+      setTo("current");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore revision",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const versionLabel = (id: string) => {
+    if (id === "current") return "Current version";
+    const revision = data?.revisions.find((entry) => entry.id.toString() === id);
+    return revision
+      ? `${format(new Date(revision.createdAt), "PPp")} · ${getDisplayName(revision.editor)}`
+      : "Revision";
+  };
+
+  const versionOptions = [
+    "current",
+    ...(data?.revisions.map((revision) => revision.id.toString()) ?? []),
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-dark-surface border-border max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl text-neon-green flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Revision History
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="bg-dark-elevated rounded-lg h-32 animate-pulse" />
+        ) : !data ? (
+          <p className="text-sm text-muted-foreground text-center">Couldn't load the history for this work.</p>
+        ) : data.revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center">This work has never been edited.</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-xs text-muted-foreground">
+              Each revision is the work as it was before an edit, dated when it was replaced.
+            </p>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={from} onValueChange={setFrom}>
+                <SelectTrigger className="w-64 bg-dark-elevated border-border">
+                  <SelectValue placeholder="Compare from" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versionOptions.map((id) => (
+                    <SelectItem key={id} value={id}>{versionLabel(id)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">→</span>
+              <Select value={to} onValueChange={setTo}>
+                <SelectTrigger className="w-64 bg-dark-elevated border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versionOptions.map((id) => (
+                    <SelectItem key={id} value={id}>{versionLabel(id)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={mode} onValueChange={(value) => setMode(value as "line" | "word")}>
+                <SelectTrigger className="w-32 bg-dark-elevated border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="word">By word</SelectItem>
+                  <SelectItem value="line">By line</SelectItem>
+                </SelectContent>
+              </Select>
+              {canRestore && from && from !== "current" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="border-border ml-auto"
+                  disabled={restoreMutation.isPending}
+                  onClick={() => restoreMutation.mutate(parseInt(from))}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Restore this revision
+                </Button>
+              )}
+            </div>
+
+            {isLoadingDiff ? (
+              <div className="bg-dark-elevated rounded-lg h-48 animate-pulse" />
+            ) : diff ? (
+              <div className="space-y-4">
+                {[
+                  { label: "Title", parts: diff.changes.title },
+                  { label: "Description", parts: diff.changes.description },
+                  { label: "Text", parts: diff.changes.textContent },
+                ].map(({ label, parts }) => (
+                  <div key={label} className="bg-dark-elevated rounded-lg p-3">
+                    <div className="text-xs text-neon-green mb-2">{label}</div>
+                    <DiffViewer parts={parts} collapseUnchanged={mode === "line"} />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center">Couldn't compare these versions.</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
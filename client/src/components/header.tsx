@@ -5,14 +5,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Atom, Search, Menu, User, LogOut, Upload } from "lucide-react";
+import NotificationBell from "@/components/notification-bell";
+import { Atom, Search, Menu, User, LogOut, Upload, Settings } from "lucide-react";
 
 interface HeaderProps {
   onSearch?: (search: string) => void;
 }
 
 export default function Header({ onSearch }: HeaderProps) {
-  const { user } = useAuth();
+  const { user, isAuthenticated } = useAuth();
   const [location, setLocation] = useLocation();
   const [searchValue, setSearchValue] = useState("");
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -96,6 +97,8 @@ export default function Header({ onSearch }: HeaderProps) {
               <Upload className="h-4 w-4 mr-2" />
               Upload Work
             </Button>
+
+            {isAuthenticated && <NotificationBell />}
             
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -113,6 +116,10 @@ export default function Header({ onSearch }: HeaderProps) {
                   <User className="mr-2 h-4 w-4" />
                   <span>Profile</span>
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setLocation("/settings")}>
+                  <Settings className="mr-2 h-4 w-4" />
+                  <span>Settings</span>
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={() => window.location.href = '/api/logout'}>
                   <LogOut className="mr-2 h-4 w-4" />
                   <span>Logout</span>
@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import {
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useNotifications,
+  useUnreadNotificationCount,
+  type NotificationItem as NotificationData,
+} from "@/hooks/useNotifications";
+import NotificationItem from "@/components/notification-item";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Bell } from "lucide-react";
+
+export default function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const unreadCount = useUnreadNotificationCount();
+  // The list is only fetched while the dropdown is open
+  const { notifications, isLoading } = useNotifications({}, { enabled: open });
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const handleSelect = (notification: NotificationData) => {
+    if (!notification.readAt) {
+      markRead.mutate(notification.id);
+    }
+    setOpen(false);
+    if (notification.fanworkId) {
+      setLocation(`/works/${notification.fanworkId}`);
+    }
+  };
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative h-8 w-8 p-0" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-neon-green text-dark-bg text-[10px] font-bold flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80 bg-dark-surface border-border p-0" align="end">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+          <span className="font-semibold text-foreground">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => markAllRead.mutate()}
+            disabled={unreadCount === 0 || markAllRead.isPending}
+            className="h-7 px-2 text-xs text-portal-blue"
+          >
+            Mark all read
+          </Button>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto p-1">
+          {isLoading ? (
+            <div className="space-y-2 p-2">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="bg-dark-elevated rounded h-12 animate-pulse" />
+              ))}
+            </div>
+          ) : notifications.length > 0 ? (
+            notifications.slice(0, 10).map((notification) => (
+              <NotificationItem key={notification.id} notification={notification} onSelect={handleSelect} />
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">You're all caught up</p>
+          )}
+        </div>
+
+        <div className="border-t border-border p-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setOpen(false);
+              setLocation("/notifications");
+            }}
+            className="w-full text-xs text-muted-foreground"
+          >
+            View all notifications
+          </Button>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
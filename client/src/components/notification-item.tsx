@@ -0,0 +1,62 @@
+import { getDisplayName } from "@/lib/utils";
+import type { NotificationItem as NotificationData } from "@/hooks/useNotifications";
+import { Bookmark, Flag, Gift, Heart, MessageCircle, Reply, UserPlus, Users } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+const icons = {
+  comment: MessageCircle,
+  reply: Reply,
+  like: Heart,
+  bookmark: Bookmark,
+  report_resolved: Flag,
+  cocreator_invite: UserPlus,
+  cocreator_accepted: Users,
+  gift: Gift,
+};
+
+function describe(notification: NotificationData): string {
+  const actor = notification.actor ? getDisplayName(notification.actor) : "A guest";
+  const title = notification.fanwork?.title ?? "your work";
+
+  switch (notification.type) {
+    case "comment": return `${actor} commented on ${title}`;
+    case "reply": return `${actor} replied to your comment on ${title}`;
+    case "like": return `${actor} liked ${title}`;
+    case "bookmark": return `${actor} bookmarked ${title}`;
+    case "report_resolved": return notification.message || "Your report was reviewed";
+    case "cocreator_invite": return `${actor} invited you to co-create ${title}`;
+    case "cocreator_accepted": return `${actor} is now a co-creator of ${title}`;
+    case "gift": return `${actor} gifted you ${title}`;
+  }
+}
+
+interface NotificationItemProps {
+  notification: NotificationData;
+  onSelect: (notification: NotificationData) => void;
+}
+
+export default function NotificationItem({ notification, onSelect }: NotificationItemProps) {
+  const Icon = icons[notification.type] ?? MessageCircle;
+  const isUnread = !notification.readAt;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(notification)}
+      className={`w-full text-left flex gap-3 p-3 rounded transition-colors hover:bg-dark-elevated ${
+        isUnread ? "bg-dark-elevated/50" : ""
+      }`}
+    >
+      <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${isUnread ? "text-neon-green" : "text-muted-foreground"}`} />
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm ${isUnread ? "text-foreground" : "text-muted-foreground"}`}>
+          {describe(notification)}
+        </p>
+        <p className="text-xs text-muted-foreground mt-0.5">
+          {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+        </p>
+      </div>
+      {isUnread && <span className="h-2 w-2 mt-1.5 rounded-full bg-neon-green flex-shrink-0" />}
+    </button>
+  );
+}
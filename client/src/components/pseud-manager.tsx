@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { usePseuds, type PseudWithCount } from "@/hooks/usePseuds";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Drama, Pencil, Plus, Star, Trash2 } from "lucide-react";
+
+interface PseudManagerProps {
+  username: string;
+}
+
+// Lists the signed-in user's pseuds and lets them add, rename, delete and
+// pick the default one.
+export default function PseudManager({ username }: PseudManagerProps) {
+  const { toast } = useToast();
+  const { data: pseuds = [] } = usePseuds(username);
+  // null while adding a new pseud, a pseud id while editing one
+  const [editing, setEditing] = useState<number | null | undefined>(undefined);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/users", username] });
+    queryClient.invalidateQueries({ queryKey: ["/api/fanworks"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update pseuds",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(editing ? `/api/pseuds/${editing}` : "/api/pseuds", {
+        method: editing ? "PATCH" : "POST",
+        body: JSON.stringify({ name, description: description || null }),
+      }),
+    onSuccess: () => {
+      invalidate();
+      setEditing(undefined);
+    },
+    onError,
+  });
+
+  const defaultMutation = useMutation({
+    mutationFn: (pseudId: number) =>
+      apiRequest(`/api/pseuds/${pseudId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ isDefault: true }),
+      }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (pseudId: number) => apiRequest(`/api/pseuds/${pseudId}`, { method: "DELETE" }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const startEditing = (pseud?: PseudWithCount) => {
+    setEditing(pseud ? pseud.id : null);
+    setName(pseud?.name ?? "");
+    setDescription(pseud?.description ?? "");
+  };
+
+  const editor = (
+    <div className="space-y-2 p-4 rounded-lg bg-dark-elevated border border-border">
+      <Input
+        placeholder="Pseud name"
+        value={name}
+        maxLength={100}
+        onChange={(e) => setName(e.target.value)}
+        className="bg-dark-surface border-border"
+      />
+      <Textarea
+        placeholder="Description (optional)"
+        value={description}
+        maxLength={1000}
+        rows={2}
+        onChange={(e) => setDescription(e.target.value)}
+        className="bg-dark-surface border-border"
+      />
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" className="border-border" onClick={() => setEditing(undefined)}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          disabled={!name.trim() || saveMutation.isPending}
+          onClick={() => saveMutation.mutate()}
+          className="bg-neon-green text-dark-bg hover:bg-neon-green/90"
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="bg-dark-surface border-border">
+      <CardHeader>
+        <CardTitle className="text-xl text-neon-green flex items-center gap-2">
+          <Drama className="h-5 w-5" />
+          Pseuds
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Publish under different names from one account. New works use your default pseud.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {pseuds.map((pseud) =>
+          editing === pseud.id ? (
+            <div key={pseud.id}>{editor}</div>
+          ) : (
+            <div key={pseud.id} className="flex items-center justify-between gap-4 p-4 rounded-lg bg-dark-elevated border border-border">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-foreground truncate">{pseud.name}</span>
+                  {pseud.isDefault && <Badge variant="secondary">Default</Badge>}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {pseud.workCount} {pseud.workCount === 1 ? "work" : "works"}
+                </div>
+              </div>
+              <div className="flex gap-1">
+                {!pseud.isDefault && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    title="Make default"
+                    disabled={defaultMutation.isPending}
+                    onClick={() => defaultMutation.mutate(pseud.id)}
+                  >
+                    <Star className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button type="button" variant="ghost" size="sm" title="Edit" onClick={() => startEditing(pseud)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                {!pseud.isDefault && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    title="Delete (works move to your default pseud)"
+                    className="text-red-500"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(pseud.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ),
+        )}
+
+        {editing === null ? (
+          editor
+        ) : (
+          <Button type="button" variant="outline" size="sm" className="border-border" onClick={() => startEditing()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Pseud
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import type { Series } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { ChevronLeft, ChevronRight, Library } from "lucide-react";
+
+interface SeriesNavigationEntry {
+  series: Series;
+  position: number;
+  partCount: number;
+  previous: { id: number; title: string } | null;
+  next: { id: number; title: string } | null;
+}
+
+interface SeriesNavigationProps {
+  fanworkId: number;
+}
+
+export default function SeriesNavigation({ fanworkId }: SeriesNavigationProps) {
+  const { data: entries = [] } = useQuery<SeriesNavigationEntry[]>({
+    queryKey: [`/api/fanworks/${fanworkId}/series`],
+    retry: false,
+  });
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => (
+        <Card key={entry.series.id} className="bg-dark-surface border-border">
+          <CardContent className="p-4 flex items-center justify-between gap-4">
+            <div className="w-1/3">
+              {entry.previous && (
+                <Link
+                  href={`/works/${entry.previous.id}`}
+                  className="flex items-center text-sm text-muted-foreground hover:text-neon-green transition-colors"
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1 flex-shrink-0" />
+                  <span className="truncate">{entry.previous.title}</span>
+                </Link>
+              )}
+            </div>
+
+            <Link
+              href={`/series/${entry.series.id}`}
+              className="flex items-center gap-2 text-sm text-portal-blue hover:underline"
+            >
+              <Library className="h-4 w-4" />
+              Part {entry.position} of {entry.partCount} in {entry.series.title}
+            </Link>
+
+            <div className="w-1/3 flex justify-end">
+              {entry.next && (
+                <Link
+                  href={`/works/${entry.next.id}`}
+                  className="flex items-center text-sm text-muted-foreground hover:text-neon-green transition-colors"
+                >
+                  <span className="truncate">{entry.next.title}</span>
+                  <ChevronRight className="h-4 w-4 ml-1 flex-shrink-0" />
+                </Link>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
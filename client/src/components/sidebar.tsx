@@ -3,12 +3,18 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { CloudUpload } from "lucide-react";
+import { archiveWarnings, fanworkCategories } from "@/lib/archive";
+import ContentFilterToggle from "@/components/content-filter-toggle";
 
 interface SidebarProps {
   filters: {
     type: string[];
     rating: string[];
     tags: string[];
+    tagMode: "all" | "any";
+    excludeTags: string[];
+    excludeWarnings: string[];
+    categories: string[];
     search: string;
   };
   onFilterChange: (filters: any) => void;
@@ -55,17 +61,49 @@ export default function Sidebar({
     onFilterChange({ rating: newRatings });
   };
 
+  const handleWarningChange = (warning: string, checked: boolean) => {
+    const newWarnings = checked
+      ? [...filters.excludeWarnings, warning]
+      : filters.excludeWarnings.filter(w => w !== warning);
+    onFilterChange({ excludeWarnings: newWarnings });
+  };
+
+  const handleCategoryChange = (category: string, checked: boolean) => {
+    const newCategories = checked
+      ? [...filters.categories, category]
+      : filters.categories.filter(c => c !== category);
+    onFilterChange({ categories: newCategories });
+  };
+
+  // Clicking a tag cycles it through included -> excluded -> off
   const handleTagClick = (tag: string) => {
-    const isSelected = filters.tags.includes(tag);
-    const newTags = isSelected
-      ? filters.tags.filter(t => t !== tag)
-      : [...filters.tags, tag];
-    onFilterChange({ tags: newTags });
+    if (filters.tags.includes(tag)) {
+      onFilterChange({
+        tags: filters.tags.filter(t => t !== tag),
+        excludeTags: [...filters.excludeTags, tag],
+      });
+    } else if (filters.excludeTags.includes(tag)) {
+      onFilterChange({ excludeTags: filters.excludeTags.filter(t => t !== tag) });
+    } else {
+      onFilterChange({ tags: [...filters.tags, tag] });
+    }
+  };
+
+  const getTagClassName = (tag: string) => {
+    if (filters.tags.includes(tag)) {
+      return "bg-neon-green text-dark-bg border-neon-green";
+    }
+    if (filters.excludeTags.includes(tag)) {
+      return "bg-transparent text-red-500 border-red-500 line-through";
+    }
+    return "bg-transparent text-muted-foreground border-muted-foreground hover:border-neon-green hover:text-neon-green";
   };
 
   return (
     <aside className="w-64 flex-shrink-0">
       <div className="space-y-6">
+        <ContentFilterToggle />
+
         {/* Content Type Filter */}
         <Card className="bg-dark-surface border-border">
           <CardHeader className="pb-3">
@@ -105,28 +143,80 @@ export default function Sidebar({
           </CardContent>
         </Card>
 
+        {/* Archive Warning Filter */}
+        <Card className="bg-dark-surface border-border">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg text-destructive">Exclude Warnings</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {archiveWarnings.filter((warning) => warning.value !== "none").map((warning) => (
+              <label key={warning.value} className="flex items-center space-x-2 cursor-pointer">
+                <Checkbox
+                  checked={filters.excludeWarnings.includes(warning.value)}
+                  onCheckedChange={(checked) => handleWarningChange(warning.value, checked as boolean)}
+                  className="data-[state=checked]:bg-destructive data-[state=checked]:border-destructive"
+                />
+                <span className="text-sm text-muted-foreground">{warning.label}</span>
+              </label>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Category Filter */}
+        <Card className="bg-dark-surface border-border">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg text-neon-green">Category</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-3 gap-3">
+            {fanworkCategories.map((category) => (
+              <label key={category.value} className="flex items-center space-x-2 cursor-pointer">
+                <Checkbox
+                  checked={filters.categories.includes(category.value)}
+                  onCheckedChange={(checked) => handleCategoryChange(category.value, checked as boolean)}
+                  className="data-[state=checked]:bg-neon-green data-[state=checked]:border-neon-green"
+                />
+                <span className="text-muted-foreground">{category.label}</span>
+              </label>
+            ))}
+          </CardContent>
+        </Card>
+
         {/* Popular Tags */}
         <Card className="bg-dark-surface border-border">
           <CardHeader className="pb-3">
             <CardTitle className="text-lg text-warning-amber">Popular Tags</CardTitle>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-3">
             <div className="flex flex-wrap gap-2">
               {popularTags.map((tag) => (
                 <Badge
                   key={tag}
                   variant={filters.tags.includes(tag) ? "default" : "secondary"}
-                  className={`tag-chip cursor-pointer ${
-                    filters.tags.includes(tag)
-                      ? "bg-neon-green text-dark-bg border-neon-green"
-                      : "bg-transparent text-muted-foreground border-muted-foreground hover:border-neon-green hover:text-neon-green"
-                  }`}
+                  className={`tag-chip cursor-pointer ${getTagClassName(tag)}`}
                   onClick={() => handleTagClick(tag)}
                 >
-                  #{tag}
+                  {filters.excludeTags.includes(tag) ? "-" : "#"}{tag}
                 </Badge>
               ))}
             </div>
+            {filters.tags.length > 1 && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span>Match</span>
+                {(["all", "any"] as const).map((mode) => (
+                  <Button
+                    key={mode}
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onFilterChange({ tagMode: mode })}
+                    className={`h-6 px-2 text-xs ${
+                      filters.tagMode === mode ? "bg-warning-amber text-dark-bg" : ""
+                    }`}
+                  >
+                    {mode === "all" ? "All tags" : "Any tag"}
+                  </Button>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -147,10 +237,11 @@ export default function Sidebar({
         )}
 
         {/* Clear Filters */}
-        {(filters.type.length > 0 || filters.rating.length > 0 || filters.tags.length > 0) && (
+        {(filters.type.length > 0 || filters.rating.length > 0 || filters.tags.length > 0 || filters.excludeTags.length > 0 ||
+          filters.excludeWarnings.length > 0 || filters.categories.length > 0) && (
           <Button
             variant="outline"
-            onClick={() => onFilterChange({ type: [], rating: [], tags: [] })}
+            onClick={() => onFilterChange({ type: [], rating: [], tags: [], excludeTags: [], excludeWarnings: [], categories: [] })}
             className="w-full border-muted-foreground text-muted-foreground hover:border-neon-green hover:text-neon-green"
           >
             Clear All Filters
@@ -5,7 +5,10 @@ import { useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { z } from "zod";
 import { useAuth } from "@/hooks/useAuth";
+import { usePseuds } from "@/hooks/usePseuds";
+import type { User } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import ArchiveChecklist from "@/components/archive-checklist";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import {
@@ -27,11 +30,14 @@ const uploadSchema = z.object({
   description: z.string().optional(),
   type: z.enum(["artwork", "fanfiction", "comic"]),
   rating: z.enum(["all-ages", "teen", "mature", "explicit"]),
-  content: z.string().optional(),
-  wordCount: z.number().optional(),
-  chapterCount: z.number().optional(),
+  warnings: z.array(z.string()).min(1, "Choose at least one archive warning"),
+  categories: z.array(z.string()),
+  pseudId: z.number().int().optional(),
+  textContent: z.string().optional(),
+  expectedChapters: z.number().int().positive().optional(),
   isComplete: z.boolean().default(false),
   tags: z.string(),
+  giftRecipients: z.string(),
 });
 
 type UploadFormData = z.infer<typeof uploadSchema>;
@@ -42,7 +48,8 @@ interface UploadModalProps {
 }
 
 export default function UploadModal({ open, onOpenChange }: UploadModalProps) {
-  const { isAuthenticated } = useAuth();
+  const { user, isAuthenticated } = useAuth();
+  const { data: pseuds = [] } = usePseuds((user as User | undefined)?.username);
   const { toast } = useToast();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [dragOver, setDragOver] = useState(false);
@@ -54,11 +61,14 @@ export default function UploadModal({ open, onOpenChange }: UploadModalProps) {
       description: "",
       type: "artwork",
       rating: "all-ages",
-      content: "",
-      wordCount: undefined,
-      chapterCount: undefined,
+      warnings: [],
+      categories: [],
+      pseudId: undefined,
+      textContent: "",
+      expectedChapters: undefined,
       isComplete: false,
       tags: "",
+      giftRecipients: "",
     },
   });
 
@@ -79,10 +89,13 @@ export default function UploadModal({ open, onOpenChange }: UploadModalProps) {
       });
 
       if (selectedFile) {
-        formData.append("image", selectedFile);
+        formData.append("file", selectedFile);
       }
 
-      const response = await apiRequest("POST", "/api/fanworks", formData);
+      const response = await apiRequest("/api/fanworks", {
+        method: "POST",
+        body: formData,
+      });
       return response;
     },
     onSuccess: () => {
@@ -234,6 +247,36 @@ export default function UploadModal({ open, onOpenChange }: UploadModalProps) {
                   )}
                 />
 
+                {pseuds.length > 1 && (
+                  <FormField
+                    control={form.control}
+                    name="pseudId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-foreground">Publish As</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(parseInt(value))}
+                          value={(field.value ?? pseuds.find((pseud) => pseud.isDefault)?.id)?.toString()}
+                        >
+                          <FormControl>
+                            <SelectTrigger className="bg-dark-elevated border-border text-foreground focus:border-neon-green">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {pseuds.map((pseud) => (
+                              <SelectItem key={pseud.id} value={pseud.id.toString()}>
+                                {pseud.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <FormField
                   control={form.control}
                   name="type"
@@ -316,6 +359,30 @@ export default function UploadModal({ open, onOpenChange }: UploadModalProps) {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="warnings"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-foreground">Archive Warnings *</FormLabel>
+                      <ArchiveChecklist kind="warnings" value={field.value} onChange={field.onChange} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="categories"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-foreground">Categories</FormLabel>
+                      <ArchiveChecklist kind="categories" value={field.value} onChange={field.onChange} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="tags"
@@ -333,6 +400,24 @@ export default function UploadModal({ open, onOpenChange }: UploadModalProps) {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="giftRecipients"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-foreground">Gift To (usernames, comma-separated)</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Leave blank if this isn't a gift"
+                          className="bg-dark-elevated border-border text-foreground placeholder:text-muted-foreground focus:border-neon-green"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               <div className="space-y-4">
@@ -398,47 +483,25 @@ export default function UploadModal({ open, onOpenChange }: UploadModalProps) {
 
                 {watchedType === "fanfiction" && (
                   <div className="space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="wordCount"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel className="text-foreground">Word Count</FormLabel>
-                            <FormControl>
-                              <Input 
-                                type="number"
-                                placeholder="0"
-                                className="bg-dark-elevated border-border text-foreground placeholder:text-muted-foreground focus:border-neon-green"
-                                {...field}
-                                onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-
-                      <FormField
-                        control={form.control}
-                        name="chapterCount"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel className="text-foreground">Chapters</FormLabel>
-                            <FormControl>
-                              <Input 
-                                type="number"
-                                placeholder="1"
-                                className="bg-dark-elevated border-border text-foreground placeholder:text-muted-foreground focus:border-neon-green"
-                                {...field}
-                                onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
+                    <FormField
+                      control={form.control}
+                      name="expectedChapters"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-foreground">Total Chapters</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number"
+                              placeholder="? (leave blank if unsure)"
+                              className="bg-dark-elevated border-border text-foreground placeholder:text-muted-foreground focus:border-neon-green"
+                              {...field}
+                              onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
                     <FormField
                       control={form.control}
@@ -486,7 +549,7 @@ export default function UploadModal({ open, onOpenChange }: UploadModalProps) {
             {watchedType === "fanfiction" && (
               <FormField
                 control={form.control}
-                name="content"
+                name="textContent"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel className="text-foreground">Story Content</FormLabel>
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getDisplayName } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Ban, VolumeX } from "lucide-react";
+import { format } from "date-fns";
+
+interface RelatedUser {
+  id: number;
+  username: string;
+  firstName: string | null;
+  lastName: string | null;
+  profileImageUrl: string | null;
+  createdAt: string | null;
+}
+
+interface UserRelationManagerProps {
+  kind: "block" | "mute";
+}
+
+const copy = {
+  block: {
+    title: "Blocked Users",
+    icon: Ban,
+    description:
+      "Blocked users can't comment on your works, follow you, gift works to you or invite you to co-create.",
+    action: "Block",
+    undo: "Unblock",
+    empty: "You haven't blocked anyone.",
+  },
+  mute: {
+    title: "Muted Users",
+    icon: VolumeX,
+    description:
+      "Muted users' works and comments are hidden from you. They aren't told and can still interact with you.",
+    action: "Mute",
+    undo: "Unmute",
+    empty: "You haven't muted anyone.",
+  },
+};
+
+// The signed-in user's block or mute list, with a way to add people by username
+export default function UserRelationManager({ kind }: UserRelationManagerProps) {
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const text = copy[kind];
+  const Icon = text.icon;
+  const listKey = kind === "block" ? "/api/users/me/blocks" : "/api/users/me/mutes";
+
+  const { data: entries = [], isLoading } = useQuery<RelatedUser[]>({
+    queryKey: [listKey],
+    retry: false,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [listKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/fanworks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/feed"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || `Failed to ${text.action.toLowerCase()} user`,
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const profile = await apiRequest(`/api/users/${encodeURIComponent(username.trim())}`);
+      return apiRequest(`/api/users/${profile.id}/${kind}`, { method: "POST" });
+    },
+    onSuccess: () => {
+      invalidate();
+      setUsername("");
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (userId: number) => apiRequest(`/api/users/${userId}/${kind}`, { method: "DELETE" }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  return (
+    <Card className="bg-dark-surface border-border">
+      <CardHeader>
+        <CardTitle className="text-xl text-neon-green flex items-center gap-2">
+          <Icon className="h-5 w-5" />
+          {text.title}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">{text.description}</p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            addMutation.mutate();
+          }}
+        >
+          <Input
+            value={username}
+            placeholder="Username"
+            onChange={(e) => setUsername(e.target.value)}
+            className="bg-dark-elevated border-border"
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            className="border-border"
+            disabled={!username.trim() || addMutation.isPending}
+          >
+            {text.action}
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="bg-dark-elevated rounded-lg h-16 animate-pulse" />
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{text.empty}</p>
+        ) : (
+          entries.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-dark-elevated border border-border">
+              <Link href={`/users/${entry.username}`} className="flex items-center gap-3 min-w-0 hover:text-neon-green">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={entry.profileImageUrl || undefined} />
+                  <AvatarFallback>{entry.username[0]?.toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <div className="font-semibold text-foreground truncate">{getDisplayName(entry)}</div>
+                  {entry.createdAt && (
+                    <div className="text-xs text-muted-foreground">Since {format(new Date(entry.createdAt), "PP")}</div>
+                  )}
+                </div>
+              </Link>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={removeMutation.isPending}
+                onClick={() => removeMutation.mutate(entry.id)}
+              >
+                {text.undo}
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
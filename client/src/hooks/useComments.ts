@@ -0,0 +1,51 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest, buildQueryUrl } from "@/lib/queryClient";
+
+export interface CommentThread {
+  id: number;
+  content: string;
+  userId: number | null;
+  guestName: string | null;
+  fanworkId: number;
+  parentId: number | null;
+  depth: number;
+  isApproved: boolean;
+  editedAt: string | null;
+  deletedAt: string | null;
+  createdAt: string;
+  user: {
+    id: number;
+    username: string;
+    firstName: string | null;
+    lastName: string | null;
+    profileImageUrl: string | null;
+  } | null;
+  replyCount: number;
+  replies: CommentThread[];
+}
+
+interface CommentPage {
+  items: CommentThread[];
+  nextCursor: string | null;
+  totalCount?: number;
+  maxDepth: number;
+}
+
+// Top-level comment threads for a fanwork, newest first. Each page carries
+// its threads' replies, so only the top level needs paging.
+export function useComments(fanworkId: number) {
+  const query = useInfiniteQuery({
+    queryKey: ["/api/fanworks", fanworkId, "comments"],
+    queryFn: ({ queryKey, pageParam }): Promise<CommentPage> =>
+      apiRequest(buildQueryUrl([...queryKey, pageParam ? { cursor: pageParam } : { includeTotal: true }])),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    retry: false,
+  });
+
+  const threads = query.data?.pages.flatMap((page) => page.items) ?? [];
+  const threadCount = query.data?.pages[0]?.totalCount ?? threads.length;
+  const maxDepth = query.data?.pages[0]?.maxDepth ?? 0;
+
+  return { ...query, threads, threadCount, maxDepth };
+}
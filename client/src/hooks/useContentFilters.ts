@@ -0,0 +1,52 @@
+import { useSyncExternalStore } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+
+export interface ContentFilters {
+  excludeTags: string[];
+  excludeWarnings: string[];
+  excludeRatings: string[];
+  // Usernames
+  excludeAuthors: string[];
+}
+
+// The signed-in user's saved filters, which the server applies to every listing
+export function useContentFilters() {
+  const { isAuthenticated } = useAuth();
+  return useQuery<ContentFilters>({
+    queryKey: ["/api/users/me/content-filters"],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+}
+
+export function hasContentFilters(filters: ContentFilters | undefined): boolean {
+  return !!filters && Object.values(filters).some((values) => values.length > 0);
+}
+
+// Showing filtered works is a temporary override that lasts for the browser
+// session, shared by every listing on the page.
+const SHOW_FILTERED_KEY = "showFilteredWorks";
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function getShowFiltered(): boolean {
+  return sessionStorage.getItem(SHOW_FILTERED_KEY) === "true";
+}
+
+export function setShowFiltered(show: boolean) {
+  if (show) {
+    sessionStorage.setItem(SHOW_FILTERED_KEY, "true");
+  } else {
+    sessionStorage.removeItem(SHOW_FILTERED_KEY);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function useShowFiltered(): boolean {
+  return useSyncExternalStore(subscribe, getShowFiltered);
+}
@@ -0,0 +1,24 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest, buildQueryUrl } from "@/lib/queryClient";
+import { useShowFiltered } from "@/hooks/useContentFilters";
+import type { EnrichedFanwork, FanworkListItem, FanworkPage } from "@shared/schema";
+
+// Cursor-paginated fanwork listing. Pages are appended as they load, and the
+// total is requested along with the first page only.
+export function useFanworks(params: Record<string, unknown>, options: { enabled?: boolean } = {}) {
+  const showFiltered = useShowFiltered();
+  const query = useInfiniteQuery({
+    queryKey: ["/api/fanworks", { ...params, showFiltered: showFiltered || undefined }],
+    queryFn: ({ queryKey, pageParam }): Promise<FanworkPage<EnrichedFanwork<FanworkListItem>>> =>
+      apiRequest(buildQueryUrl([...queryKey, pageParam ? { cursor: pageParam } : { includeTotal: true }])),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: options.enabled,
+    retry: false,
+  });
+
+  const fanworks = query.data?.pages.flatMap((page) => page.items) ?? [];
+  const totalCount = query.data?.pages[0]?.totalCount ?? fanworks.length;
+
+  return { ...query, fanworks, totalCount };
+}
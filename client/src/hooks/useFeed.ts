@@ -0,0 +1,23 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest, buildQueryUrl } from "@/lib/queryClient";
+import { useShowFiltered } from "@/hooks/useContentFilters";
+import type { EnrichedFanwork, FanworkPage } from "@shared/schema";
+
+// Works from followed authors and subscribed works or series, most recently
+// published first.
+export function useFeed(options: { enabled?: boolean } = {}) {
+  const showFiltered = useShowFiltered();
+  const query = useInfiniteQuery({
+    queryKey: ["/api/feed", { showFiltered: showFiltered || undefined }],
+    queryFn: ({ queryKey, pageParam }): Promise<FanworkPage<EnrichedFanwork>> =>
+      apiRequest(buildQueryUrl([...queryKey, { cursor: pageParam }])),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: options.enabled,
+    retry: false,
+  });
+
+  const fanworks = query.data?.pages.flatMap((page) => page.items) ?? [];
+
+  return { ...query, fanworks };
+}
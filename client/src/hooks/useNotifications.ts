@@ -0,0 +1,81 @@
+import { useInfiniteQuery, useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, buildQueryUrl, queryClient } from "@/lib/queryClient";
+
+export interface NotificationItem {
+  id: number;
+  type:
+    | "comment"
+    | "reply"
+    | "like"
+    | "bookmark"
+    | "report_resolved"
+    | "cocreator_invite"
+    | "cocreator_accepted"
+    | "gift";
+  fanworkId: number | null;
+  commentId: number | null;
+  message: string | null;
+  readAt: string | null;
+  createdAt: string;
+  actor: {
+    id: number;
+    username: string;
+    firstName: string | null;
+    lastName: string | null;
+    profileImageUrl: string | null;
+  } | null;
+  fanwork: { id: number; title: string } | null;
+}
+
+interface NotificationPage {
+  items: NotificationItem[];
+  nextCursor: string | null;
+}
+
+export function useUnreadNotificationCount(enabled = true) {
+  const { data } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications", "unread-count"],
+    enabled,
+    // Kept current by pushes from useRealtime
+    retry: false,
+  });
+
+  return data?.count ?? 0;
+}
+
+// The signed-in user's inbox, newest first
+export function useNotifications(params: { unread?: boolean } = {}, options: { enabled?: boolean } = {}) {
+  const query = useInfiniteQuery({
+    queryKey: ["/api/notifications", params],
+    queryFn: ({ queryKey, pageParam }): Promise<NotificationPage> =>
+      apiRequest(buildQueryUrl([...queryKey, pageParam ? { cursor: pageParam } : {}])),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: options.enabled,
+    staleTime: 0,
+    retry: false,
+  });
+
+  const notifications = query.data?.pages.flatMap((page) => page.items) ?? [];
+
+  return { ...query, notifications };
+}
+
+function invalidateNotifications() {
+  // Also covers the unread count, which shares the prefix
+  queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+}
+
+export function useMarkNotificationRead() {
+  return useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/notifications/${id}/read`, { method: "PATCH" }),
+    onSuccess: invalidateNotifications,
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  return useMutation({
+    mutationFn: () => apiRequest("/api/notifications/read-all", { method: "POST" }),
+    onSuccess: invalidateNotifications,
+  });
+}
@@ -0,0 +1,79 @@
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { apiRequest, buildQueryUrl } from "@/lib/queryClient";
+import { useShowFiltered } from "@/hooks/useContentFilters";
+import type { EnrichedFanwork, FanworkPage } from "@shared/schema";
+
+export interface ProfileStats {
+  artworks: number;
+  fanfictions: number;
+  likesReceived: number;
+  commentsReceived: number;
+  bookmarksReceived: number;
+  followers: number;
+  following: number;
+}
+
+export interface PublicProfile {
+  id: number;
+  username: string;
+  firstName: string | null;
+  lastName: string | null;
+  profileImageUrl: string | null;
+  bannerImageUrl: string | null;
+  // Markdown source, and the sanitized HTML the server rendered from it
+  bio: string | null;
+  bioHtml: string;
+  pronouns: string | null;
+  links: { label: string; url: string }[];
+  createdAt: string | null;
+  stats: ProfileStats;
+  viewer: {
+    isFollowing: boolean;
+    isBlocking: boolean;
+    isMuting: boolean;
+  };
+}
+
+export function useUserProfile(username: string | undefined) {
+  return useQuery<PublicProfile>({
+    queryKey: ["/api/users", username],
+    enabled: !!username,
+    retry: false,
+  });
+}
+
+// A user's bookmarks, newest first. Private ones are only returned to their owner.
+export function useUserBookmarks(username: string | undefined, options: { enabled?: boolean } = {}) {
+  const showFiltered = useShowFiltered();
+  const query = useInfiniteQuery({
+    queryKey: ["/api/users", username, "bookmarks", { showFiltered: showFiltered || undefined }],
+    queryFn: ({ queryKey, pageParam }): Promise<FanworkPage<EnrichedFanwork>> =>
+      apiRequest(buildQueryUrl([...queryKey, { cursor: pageParam }])),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!username && options.enabled !== false,
+    retry: false,
+  });
+
+  const fanworks = query.data?.pages.flatMap((page) => page.items) ?? [];
+
+  return { ...query, fanworks };
+}
+
+// Works gifted to a user, most recently gifted first
+export function useUserGifts(username: string | undefined, options: { enabled?: boolean } = {}) {
+  const showFiltered = useShowFiltered();
+  const query = useInfiniteQuery({
+    queryKey: ["/api/users", username, "gifts", { showFiltered: showFiltered || undefined }],
+    queryFn: ({ queryKey, pageParam }): Promise<FanworkPage<EnrichedFanwork>> =>
+      apiRequest(buildQueryUrl([...queryKey, { cursor: pageParam }])),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!username && options.enabled !== false,
+    retry: false,
+  });
+
+  const fanworks = query.data?.pages.flatMap((page) => page.items) ?? [];
+
+  return { ...query, fanworks };
+}
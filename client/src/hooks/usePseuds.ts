@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PseudWithCount } from "@shared/schema";
+
+export type { PseudWithCount };
+
+// The names a user publishes under, default pseud first
+export function usePseuds(username: string | undefined) {
+  return useQuery<PseudWithCount[]>({
+    queryKey: ["/api/users", username, "pseuds"],
+    enabled: !!username,
+    retry: false,
+  });
+}
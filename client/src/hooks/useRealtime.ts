@@ -0,0 +1,109 @@
+import { useEffect } from "react";
+import type { InfiniteData } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { addRealtimeListener, connectRealtime, disconnectRealtime, subscribeToFanwork } from "@/lib/realtime";
+import type { CommentThread } from "@/hooks/useComments";
+import type { NotificationItem } from "@/hooks/useNotifications";
+import type { EnrichedFanwork } from "@shared/schema";
+
+type Page<T> = { items: T[]; nextCursor: string | null };
+
+// Adds a reply under its parent, bumping the reply count of every ancestor on the way
+function insertReply(threads: CommentThread[], reply: CommentThread): { threads: CommentThread[]; found: boolean } {
+  let found = false;
+  const next = threads.map((thread) => {
+    if (found) return thread;
+    if (thread.id === reply.parentId) {
+      found = true;
+      if (thread.replies.some((existing) => existing.id === reply.id)) return thread;
+      return { ...thread, replyCount: thread.replyCount + 1, replies: [...thread.replies, reply] };
+    }
+    const result = insertReply(thread.replies, reply);
+    if (!result.found) return thread;
+    found = true;
+    return { ...thread, replyCount: thread.replyCount + 1, replies: result.threads };
+  });
+  return { threads: next, found };
+}
+
+function applyComment(fanworkId: number, comment: CommentThread) {
+  let added = false;
+
+  queryClient.setQueryData<InfiniteData<Page<CommentThread>>>(
+    ["/api/fanworks", fanworkId, "comments"],
+    (data) => {
+      if (!data) return data;
+
+      if (!comment.parentId) {
+        const [first, ...rest] = data.pages;
+        if (!first || data.pages.some((page) => page.items.some((item) => item.id === comment.id))) return data;
+        added = true;
+        return { ...data, pages: [{ ...first, items: [comment, ...first.items] }, ...rest] };
+      }
+
+      const pages = data.pages.map((page) => {
+        if (added) return page;
+        const result = insertReply(page.items, comment);
+        if (!result.found) return page;
+        added = true;
+        return { ...page, items: result.threads };
+      });
+      return { ...data, pages };
+    },
+  );
+
+  if (added) {
+    queryClient.setQueryData<EnrichedFanwork>(["/api/fanworks", fanworkId], (fanwork) =>
+      fanwork
+        ? { ...fanwork, counts: { ...fanwork.counts, comments: fanwork.counts.comments + 1 } }
+        : fanwork,
+    );
+  }
+}
+
+function applyNotification(notification: NotificationItem) {
+  queryClient.setQueryData<{ count: number }>(
+    ["/api/notifications", "unread-count"],
+    (data) => (data ? { count: data.count + 1 } : data),
+  );
+
+  // Every cached inbox list, whatever its filters
+  queryClient.setQueriesData<InfiniteData<Page<NotificationItem>>>(
+    { predicate: (query) => query.queryKey[0] === "/api/notifications" && typeof query.queryKey[1] === "object" },
+    (data) => {
+      if (!data?.pages[0] || data.pages[0].items.some((item) => item.id === notification.id)) return data;
+      const [first, ...rest] = data.pages;
+      return { ...data, pages: [{ ...first, items: [notification, ...first.items] }, ...rest] };
+    },
+  );
+}
+
+// Keeps a socket open while signed in and writes pushed events straight into
+// the query cache, so open views update without refetching.
+export function useRealtime(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    connectRealtime();
+    const removeListener = addRealtimeListener((event) => {
+      if (event.type === "notification") {
+        applyNotification(event.notification);
+      } else if (event.type === "comment") {
+        applyComment(event.fanworkId, event.comment);
+      }
+    });
+
+    return () => {
+      removeListener();
+      disconnectRealtime();
+    };
+  }, [enabled]);
+}
+
+// Live comments for the work currently on screen
+export function useFanworkSubscription(fanworkId: number) {
+  useEffect(() => {
+    if (isNaN(fanworkId)) return;
+    return subscribeToFanwork(fanworkId);
+  }, [fanworkId]);
+}
@@ -0,0 +1,38 @@
+// Labels for the archive warning and category values in shared/schema.ts
+
+export const archiveWarnings = [
+  { value: "choose-not-to-warn", label: "Creator Chose Not To Use Archive Warnings" },
+  { value: "graphic-violence", label: "Graphic Depictions Of Violence" },
+  { value: "major-character-death", label: "Major Character Death" },
+  { value: "non-con", label: "Rape/Non-Con" },
+  { value: "underage", label: "Underage" },
+  { value: "none", label: "No Archive Warnings Apply" },
+] as const;
+
+export type ArchiveWarningValue = (typeof archiveWarnings)[number]["value"];
+
+export const fanworkCategories = [
+  { value: "f/f", label: "F/F" },
+  { value: "f/m", label: "F/M" },
+  { value: "gen", label: "Gen" },
+  { value: "m/m", label: "M/M" },
+  { value: "multi", label: "Multi" },
+  { value: "other", label: "Other" },
+] as const;
+
+export type FanworkCategoryValue = (typeof fanworkCategories)[number]["value"];
+
+export function getWarningLabel(value: string): string {
+  return archiveWarnings.find((warning) => warning.value === value)?.label ?? value;
+}
+
+export function getCategoryLabel(value: string): string {
+  return fanworkCategories.find((category) => category.value === value)?.label ?? value;
+}
+
+// Picking "No Archive Warnings Apply" clears the others, and picking any other clears it
+export function toggleWarning(current: string[], value: string, checked: boolean): string[] {
+  if (!checked) return current.filter((warning) => warning !== value);
+  if (value === "none") return ["none"];
+  return [...current.filter((warning) => warning !== "none"), value];
+}
@@ -1,3 +1,8 @@
 export function isUnauthorizedError(error: Error): boolean {
   return /^401: .*Unauthorized/.test(error.message);
-}
\ No newline at end of file
+}
+
+// The server's "age gate required" error for mature and explicit works
+export function isAgeGateError(error: Error | null | undefined): boolean {
+  return !!error && /^403: .*AGE_GATE_REQUIRED/.test(error.message);
+}
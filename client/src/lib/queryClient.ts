@@ -39,6 +39,34 @@ export async function apiRequest(
   return res;
 }
 
+// Builds a request URL from a query key: string and number segments are joined
+// as path segments, and object segments become query parameters, so
+// ["/api/fanworks", 5, "comments"] and ["/api/fanworks", { tags: ["angst"] }]
+// both map onto the server routes.
+export function buildQueryUrl(queryKey: readonly unknown[]): string {
+  const [base, ...rest] = queryKey;
+  let url = base as string;
+  const params = new URLSearchParams();
+
+  rest.forEach((segment) => {
+    if (typeof segment === "string" || typeof segment === "number") {
+      url += `/${segment}`;
+    } else if (segment && typeof segment === "object") {
+      Object.entries(segment).forEach(([key, value]) => {
+        if (value === undefined || value === null || value === "") return;
+        if (Array.isArray(value)) {
+          value.forEach((item) => params.append(key, String(item)));
+        } else {
+          params.append(key, String(value));
+        }
+      });
+    }
+  });
+
+  const query = params.toString();
+  return query ? `${url}?${query}` : url;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -53,7 +81,7 @@ export const getQueryFn: <T>(options: {
       headers["Authorization"] = `Bearer ${token}`;
     }
 
-    const res = await fetch(queryKey[0] as string, {
+    const res = await fetch(buildQueryUrl(queryKey), {
       headers,
     });
 
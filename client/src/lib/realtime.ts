@@ -0,0 +1,94 @@
+import type { CommentThread } from "@/hooks/useComments";
+import type { NotificationItem } from "@/hooks/useNotifications";
+
+// What the server pushes down the socket
+export type RealtimeEvent =
+  | { type: "notification"; notification: NotificationItem }
+  | { type: "comment"; fanworkId: number; comment: CommentThread };
+
+// What the client sends up it
+type RealtimeMessage =
+  | { type: "subscribe"; fanworkId: number }
+  | { type: "unsubscribe"; fanworkId: number };
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+// One socket per tab, shared by every hook that wants live updates
+let socket: WebSocket | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectDelay = 1000;
+const listeners = new Set<RealtimeListener>();
+// Fanwork pages currently open, re-sent after every reconnect
+const subscriptions = new Map<number, number>();
+
+function send(message: RealtimeMessage) {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+export function connectRealtime() {
+  const token = localStorage.getItem("token");
+  if (!token || socket) return;
+
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  socket = new WebSocket(`${protocol}//${window.location.host}/ws?token=${encodeURIComponent(token)}`);
+
+  socket.onopen = () => {
+    reconnectDelay = 1000;
+    subscriptions.forEach((_, fanworkId) => send({ type: "subscribe", fanworkId }));
+  };
+
+  socket.onmessage = (message) => {
+    try {
+      const event: RealtimeEvent = JSON.parse(message.data);
+      listeners.forEach((listener) => listener(event));
+    } catch {
+      // Ignore anything that isn't JSON
+    }
+  };
+
+  socket.onclose = () => {
+    socket = null;
+    // Back off up to 30s; a missing token (logged out) stops reconnecting
+    if (localStorage.getItem("token")) {
+      reconnectTimer = setTimeout(connectRealtime, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, 30_000);
+    }
+  };
+}
+
+export function disconnectRealtime() {
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  const current = socket;
+  socket = null;
+  if (current) {
+    current.onclose = null;
+    current.close();
+  }
+}
+
+export function addRealtimeListener(listener: RealtimeListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Reference-counted so two components showing the same work don't unsubscribe each other
+export function subscribeToFanwork(fanworkId: number) {
+  const count = subscriptions.get(fanworkId) ?? 0;
+  subscriptions.set(fanworkId, count + 1);
+  if (count === 0) send({ type: "subscribe", fanworkId });
+
+  return () => {
+    const remaining = (subscriptions.get(fanworkId) ?? 1) - 1;
+    if (remaining > 0) {
+      subscriptions.set(fanworkId, remaining);
+    } else {
+      subscriptions.delete(fanworkId);
+      send({ type: "unsubscribe", fanworkId });
+    }
+  };
+}
@@ -4,3 +4,13 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function getDisplayName(user?: {
+  username: string;
+  firstName?: string | null;
+  lastName?: string | null;
+} | null): string {
+  if (!user) return "Anonymous"
+  const fullName = `${user.firstName || ""} ${user.lastName || ""}`.trim()
+  return fullName || user.username
+}
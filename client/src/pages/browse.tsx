@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useFanworks } from "@/hooks/useFanworks";
 import Header from "@/components/header";
 import Sidebar from "@/components/sidebar";
 import ContentCard from "@/components/content-card";
@@ -12,26 +12,41 @@ export default function Browse() {
     type: [] as string[],
     rating: [] as string[],
     tags: [] as string[],
+    tagMode: "all" as "all" | "any",
+    excludeTags: [] as string[],
+    excludeWarnings: [] as string[],
+    categories: [] as string[],
     search: "",
-    limit: 20,
-    offset: 0,
   });
   
   const [sortBy, setSortBy] = useState("latest");
   const [viewMode, setViewMode] = useState("grid");
 
-  const { data: fanworks = [], isLoading } = useQuery({
-    queryKey: ["/api/fanworks", filters, sortBy],
-    retry: false,
-  });
+  const {
+    fanworks,
+    totalCount,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useFanworks({ ...filters, sortBy });
 
   const handleFilterChange = (newFilters: Partial<typeof filters>) => {
-    setFilters(prev => ({ ...prev, ...newFilters, offset: 0 }));
+    setFilters(prev => ({ ...prev, ...newFilters }));
+  };
+
+  const handleSearch = (search: string) => {
+    handleFilterChange({ search });
+    if (search) {
+      setSortBy("relevance");
+    } else if (sortBy === "relevance") {
+      setSortBy("latest");
+    }
   };
 
   return (
     <div className="min-h-screen bg-dark-bg">
-      <Header onSearch={(search) => handleFilterChange({ search })} />
+      <Header onSearch={handleSearch} />
       
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="flex gap-8">
@@ -46,7 +61,7 @@ export default function Browse() {
             <div className="flex items-center justify-between mb-6">
               <div className="flex items-center space-x-4">
                 <h1 className="text-2xl font-bold text-foreground">Browse Fanworks</h1>
-                <span className="text-muted-foreground">{fanworks.length} results</span>
+                <span className="text-muted-foreground">{totalCount} results</span>
               </div>
               <div className="flex items-center space-x-4">
                 <Select value={sortBy} onValueChange={setSortBy}>
@@ -55,6 +70,8 @@ export default function Browse() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="latest">Latest</SelectItem>
+                    <SelectItem value="relevance" disabled={!filters.search}>Best Match</SelectItem>
+                    <SelectItem value="trending">Trending</SelectItem>
                     <SelectItem value="popular">Most Popular</SelectItem>
                     <SelectItem value="favorited">Most Favorited</SelectItem>
                     <SelectItem value="commented">Most Commented</SelectItem>
@@ -111,14 +128,15 @@ export default function Browse() {
             )}
 
             {/* Load More */}
-            {fanworks.length >= filters.limit && (
+            {hasNextPage && (
               <div className="text-center mt-12">
                 <Button
                   variant="outline"
-                  onClick={() => handleFilterChange({ offset: filters.offset + filters.limit })}
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
                   className="border-neon-green text-neon-green hover:bg-neon-green hover:text-dark-bg glow-neon"
                 >
-                  Load More Content
+                  {isFetchingNextPage ? "Loading..." : "Load More Content"}
                 </Button>
               </div>
             )}
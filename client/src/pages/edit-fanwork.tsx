@@ -0,0 +1,42 @@
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/header";
+import FanworkForm from "@/components/fanwork-form";
+import CoCreatorManager from "@/components/co-creator-manager";
+import type { EnrichedFanwork } from "@shared/schema";
+
+export default function EditFanworkPage() {
+  const params = useParams();
+  const fanworkId = parseInt(params.id || "");
+
+  const { data: fanwork, isLoading } = useQuery<EnrichedFanwork>({
+    queryKey: ["/api/fanworks", fanworkId],
+    enabled: !isNaN(fanworkId),
+    retry: false,
+  });
+
+  return (
+    <div className="min-h-screen bg-dark-bg">
+      <Header />
+      
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading ? (
+          <div className="bg-dark-surface rounded-lg h-96 animate-pulse" />
+        ) : !fanwork ? (
+          <div className="text-center py-16">
+            <div className="text-muted-foreground text-lg">Fanwork not found</div>
+          </div>
+        ) : !fanwork.viewer?.canEdit ? (
+          <div className="text-center py-16">
+            <div className="text-muted-foreground text-lg">Only the creators can edit this fanwork</div>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <FanworkForm fanwork={fanwork} />
+            <CoCreatorManager fanworkId={fanwork.id} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
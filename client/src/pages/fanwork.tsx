@@ -0,0 +1,603 @@
+import { useEffect, useState } from "react";
+import { useParams, Link, useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Chapter, User } from "@shared/schema";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { isAgeGateError } from "@/lib/authUtils";
+import { useAuth } from "@/hooks/useAuth";
+import { useFanworkSubscription } from "@/hooks/useRealtime";
+import { usePseuds } from "@/hooks/usePseuds";
+import { useToast } from "@/hooks/use-toast";
+import Header from "@/components/header";
+import CommentSection from "@/components/comment-section";
+import AuthorCredit from "@/components/author-credit";
+import SeriesNavigation from "@/components/series-navigation";
+import FanworkRevisionsDialog from "@/components/fanwork-revisions-dialog";
+import AgeGateNotice from "@/components/age-gate-notice";
+import { getCategoryLabel, getWarningLabel } from "@/lib/archive";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Heart, MessageCircle, Bookmark, BookOpen, Clock, ChevronLeft, ChevronRight, Pencil, Trash2, Bell, BellOff, UserPlus, UserCheck, Lock, Unlock, Gift, Users, History } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+export default function FanworkPage() {
+  const params = useParams();
+  const fanworkId = parseInt(params.id || "");
+  const [, setLocation] = useLocation();
+  const { user, isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [chapterIndex, setChapterIndex] = useState(0);
+  const [showRevisions, setShowRevisions] = useState(false);
+  useFanworkSubscription(fanworkId);
+
+  const { data: fanwork, isLoading, error } = useQuery<any>({
+    queryKey: ["/api/fanworks", fanworkId],
+    enabled: !isNaN(fanworkId),
+    retry: false,
+  });
+
+  const isFanfiction = fanwork?.type === "fanfiction";
+  const isAuthor = !!fanwork && fanwork.authorId === (user as User | undefined)?.id;
+  // Owner or accepted co-creator; only the owner may delete
+  const canEdit = !!fanwork?.viewer?.canEdit;
+  const currentUser = user as User | undefined;
+  const isModerator = currentUser?.role === "moderator" || currentUser?.role === "admin";
+  const isInvited = fanwork?.viewer?.creatorStatus === "pending";
+  const { data: pseuds = [] } = usePseuds(isInvited ? (user as User | undefined)?.username : undefined);
+  const [acceptPseudId, setAcceptPseudId] = useState<string | undefined>(undefined);
+
+  const { data: chapters = [] } = useQuery<Chapter[]>({
+    queryKey: ["/api/fanworks", fanworkId, "chapters"],
+    enabled: isFanfiction,
+    retry: false,
+  });
+
+  // Start each work from its first chapter
+  useEffect(() => {
+    setChapterIndex(0);
+  }, [fanworkId]);
+
+  const chapter = chapters[chapterIndex];
+
+  const goToChapter = (index: number) => {
+    setChapterIndex(index);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const toggleMutation = useMutation({
+    mutationFn: (action: "like" | "bookmark") =>
+      apiRequest(`/api/fanworks/${fanworkId}/${action}`, { method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update fanwork",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const bookmarkPrivacyMutation = useMutation({
+    mutationFn: (isPrivate: boolean) =>
+      apiRequest(`/api/fanworks/${fanworkId}/bookmark`, {
+        method: "PATCH",
+        body: JSON.stringify({ isPrivate }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update bookmark",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Follow the author or subscribe to this work; both feed the Following tab
+  const followMutation = useMutation({
+    mutationFn: (target: "author" | "work") => {
+      const following = target === "author" ? fanwork.viewer?.isFollowingAuthor : fanwork.viewer?.isSubscribed;
+      const url = target === "author"
+        ? `/api/users/${fanwork.authorId}/follow`
+        : `/api/fanworks/${fanworkId}/subscribe`;
+      return apiRequest(url, { method: following ? "DELETE" : "POST" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update subscription",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Accept or decline a pending co-creator invitation
+  const invitationMutation = useMutation({
+    mutationFn: (accept: boolean) =>
+      accept
+        ? apiRequest(`/api/fanworks/${fanworkId}/creators/accept`, {
+            method: "POST",
+            body: JSON.stringify({ pseudId: acceptPseudId ? parseInt(acceptPseudId) : undefined }),
+          })
+        : apiRequest(`/api/fanworks/${fanworkId}/creators/${(user as User).id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to respond to invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest(`/api/fanworks/${fanworkId}`, { method: "DELETE" }),
+    onSuccess: () => {
+      toast({
+        title: "Deleted",
+        description: "Your fanwork has been deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks"] });
+      setLocation("/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete fanwork",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleToggle = (action: "like" | "bookmark") => {
+    if (!isAuthenticated) {
+      toast({
+        title: "Login Required",
+        description: `Please log in to ${action} fanworks`,
+        variant: "destructive",
+      });
+      return;
+    }
+    toggleMutation.mutate(action);
+  };
+
+  const getRatingColor = (rating: string) => {
+    switch (rating) {
+      case "all-ages": return "bg-blue-600";
+      case "teen": return "bg-green-600";
+      case "mature": return "bg-yellow-600";
+      case "explicit": return "bg-red-600";
+      default: return "bg-gray-600";
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-dark-bg">
+      <Header />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading ? (
+          <div className="space-y-4">
+            <div className="bg-dark-surface rounded-lg h-48 animate-pulse" />
+            <div className="bg-dark-surface rounded-lg h-96 animate-pulse" />
+          </div>
+        ) : isAgeGateError(error) ? (
+          <AgeGateNotice />
+        ) : !fanwork ? (
+          <div className="text-center py-16">
+            <div className="text-muted-foreground text-lg">Fanwork not found</div>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {/* Work Header */}
+            <Card className="bg-dark-surface border-border">
+              <CardContent className="p-8">
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <h1 className="text-3xl font-bold text-foreground">{fanwork.title}</h1>
+                  <Badge className={`${getRatingColor(fanwork.rating)} text-white`}>
+                    {fanwork.rating.replace("-", " ")}
+                  </Badge>
+                </div>
+                <div className="flex items-center gap-3 mb-4">
+                  <p className="text-muted-foreground">
+                    <AuthorCredit author={fanwork.author} pseud={fanwork.pseud} coCreators={fanwork.coCreators} />
+                  </p>
+                  {fanwork.giftedTo?.length > 0 && (
+                    <p className="flex items-center gap-1 text-muted-foreground">
+                      <Gift className="h-4 w-4" />
+                      for{" "}
+                      {fanwork.giftedTo.map((recipient: any, index: number) => (
+                        <span key={recipient.id}>
+                          {index > 0 && ", "}
+                          <Link href={`/users/${recipient.username}`} className="hover:text-neon-green hover:underline">
+                            {recipient.username}
+                          </Link>
+                        </span>
+                      ))}
+                    </p>
+                  )}
+                  {isAuthenticated && !isAuthor && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => followMutation.mutate("author")}
+                      disabled={followMutation.isPending}
+                      className={`border-border h-7 ${fanwork.viewer?.isFollowingAuthor ? "text-neon-green" : ""}`}
+                    >
+                      {fanwork.viewer?.isFollowingAuthor ? (
+                        <UserCheck className="h-4 w-4 mr-1" />
+                      ) : (
+                        <UserPlus className="h-4 w-4 mr-1" />
+                      )}
+                      {fanwork.viewer?.isFollowingAuthor ? "Following" : "Follow"}
+                    </Button>
+                  )}
+                </div>
+
+                <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm mb-4">
+                  <dt className="text-muted-foreground">Archive Warnings:</dt>
+                  <dd className={fanwork.warnings?.some((warning: string) => warning !== "none") ? "text-warning-amber" : "text-foreground"}>
+                    {fanwork.warnings?.map(getWarningLabel).join(", ")}
+                  </dd>
+                  {fanwork.categories?.length > 0 && (
+                    <>
+                      <dt className="text-muted-foreground">Categories:</dt>
+                      <dd className="text-foreground">{fanwork.categories.map(getCategoryLabel).join(", ")}</dd>
+                    </>
+                  )}
+                </dl>
+
+                {fanwork.description && (
+                  <p className="text-muted-foreground whitespace-pre-line mb-4">{fanwork.description}</p>
+                )}
+
+                {fanwork.tags?.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {fanwork.tags.map((tag: any) => (
+                      <Badge key={tag.id} variant="secondary" className="tag-chip text-xs">
+                        #{tag.name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                  {isFanfiction && (
+                    <>
+                      <span>{fanwork.wordCount.toLocaleString()} words</span>
+                      <span>
+                        Chapters: {fanwork.chapterCount}/{fanwork.expectedChapters ?? "?"}
+                      </span>
+                    </>
+                  )}
+                  <span className="flex items-center">
+                    <Clock className="h-4 w-4 mr-1" />
+                    {formatDistanceToNow(new Date(fanwork.publishedAt ?? fanwork.createdAt), { addSuffix: true })}
+                  </span>
+                  <span className="flex items-center">
+                    <MessageCircle className="h-4 w-4 mr-1" />
+                    {fanwork.counts?.comments || 0}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleToggle("like")}
+                    disabled={toggleMutation.isPending}
+                    className={`p-0 h-auto ${fanwork.viewer?.isLiked ? "text-red-500" : ""}`}
+                  >
+                    <Heart className={`h-4 w-4 mr-1 ${fanwork.viewer?.isLiked ? "fill-current" : ""}`} />
+                    {fanwork.counts?.likes || 0}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleToggle("bookmark")}
+                    disabled={toggleMutation.isPending}
+                    className={`p-0 h-auto ${fanwork.viewer?.isBookmarked ? "text-neon-green" : ""}`}
+                  >
+                    <Bookmark className={`h-4 w-4 mr-1 ${fanwork.viewer?.isBookmarked ? "fill-current" : ""}`} />
+                    {fanwork.counts?.bookmarks || 0}
+                  </Button>
+                  {fanwork.viewer?.isBookmarked && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => bookmarkPrivacyMutation.mutate(!fanwork.viewer.isBookmarkPrivate)}
+                      disabled={bookmarkPrivacyMutation.isPending}
+                      className="p-0 h-auto"
+                      title={fanwork.viewer.isBookmarkPrivate
+                        ? "Only you can see this bookmark"
+                        : "This bookmark is shown on your profile"}
+                    >
+                      {fanwork.viewer.isBookmarkPrivate ? (
+                        <Lock className="h-4 w-4 mr-1" />
+                      ) : (
+                        <Unlock className="h-4 w-4 mr-1" />
+                      )}
+                      {fanwork.viewer.isBookmarkPrivate ? "Private" : "Public"}
+                    </Button>
+                  )}
+                  {isAuthenticated && !isAuthor && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => followMutation.mutate("work")}
+                      disabled={followMutation.isPending}
+                      className={`p-0 h-auto ${fanwork.viewer?.isSubscribed ? "text-portal-blue" : ""}`}
+                    >
+                      {fanwork.viewer?.isSubscribed ? (
+                        <BellOff className="h-4 w-4 mr-1" />
+                      ) : (
+                        <Bell className="h-4 w-4 mr-1" />
+                      )}
+                      {fanwork.viewer?.isSubscribed ? "Unsubscribe" : "Subscribe"}
+                    </Button>
+                  )}
+                </div>
+
+                {fanwork.status !== "published" && (
+                  <div className="flex items-center gap-2 mt-6 p-4 rounded-lg bg-dark-elevated border border-warning-amber text-foreground">
+                    <Clock className="h-5 w-5 text-warning-amber" />
+                    {fanwork.status === "scheduled" && fanwork.publishAt
+                      ? `Scheduled to publish ${format(new Date(fanwork.publishAt), "PPPp")}. Only its creators can see it until then.`
+                      : "This is a draft. Only its creators can see it."}
+                  </div>
+                )}
+
+                {isInvited && (
+                  <div className="flex flex-wrap items-center gap-3 mt-6 p-4 rounded-lg bg-dark-elevated border border-portal-blue">
+                    <Users className="h-5 w-5 text-portal-blue" />
+                    <span className="text-foreground flex-1">You've been invited to co-create this work.</span>
+                    {pseuds.length > 1 && (
+                      <Select
+                        value={acceptPseudId ?? pseuds.find((pseud) => pseud.isDefault)?.id.toString()}
+                        onValueChange={setAcceptPseudId}
+                      >
+                        <SelectTrigger className="w-40 bg-dark-surface border-border">
+                          <SelectValue placeholder="Credit as" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {pseuds.map((pseud) => (
+                            <SelectItem key={pseud.id} value={pseud.id.toString()}>
+                              {pseud.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button
+                      size="sm"
+                      onClick={() => invitationMutation.mutate(true)}
+                      disabled={invitationMutation.isPending}
+                      className="bg-neon-green text-dark-bg hover:bg-neon-green/90"
+                    >
+                      Accept
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => invitationMutation.mutate(false)}
+                      disabled={invitationMutation.isPending}
+                      className="border-border"
+                    >
+                      Decline
+                    </Button>
+                  </div>
+                )}
+
+                {(canEdit || isModerator) && (
+                  <div className="flex gap-2 mt-6">
+                    {canEdit && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setLocation(`/works/${fanworkId}/edit`)}
+                        className="border-border"
+                      >
+                        <Pencil className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setShowRevisions(true)}
+                      className="border-border"
+                    >
+                      <History className="h-4 w-4 mr-1" />
+                      History
+                    </Button>
+                    {isAuthor && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" className="border-border text-red-500">
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Delete
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent className="bg-dark-surface border-border">
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete this fanwork?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This permanently removes "{fanwork.title}" along with its chapters, comments, likes and bookmarks.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteMutation.mutate()}
+                              disabled={deleteMutation.isPending}
+                              className="bg-red-600 hover:bg-red-700"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                )}
+
+                {(canEdit || isModerator) && (
+                  <FanworkRevisionsDialog
+                    fanworkId={fanworkId}
+                    canRestore={canEdit}
+                    open={showRevisions}
+                    onOpenChange={setShowRevisions}
+                  />
+                )}
+              </CardContent>
+            </Card>
+
+            <SeriesNavigation fanworkId={fanworkId} />
+
+            {/* Work Content */}
+            {isFanfiction ? (
+              <Card className="bg-dark-surface border-border">
+                <CardContent className="p-8">
+                  {chapters.length > 0 && chapter ? (
+                    <>
+                      {chapters.length > 1 && (
+                        <div className="flex items-center justify-between gap-4 mb-6">
+                          <Select
+                            value={String(chapterIndex)}
+                            onValueChange={(value) => goToChapter(parseInt(value))}
+                          >
+                            <SelectTrigger className="w-72 bg-dark-elevated border-border">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {chapters.map((c, i) => (
+                                <SelectItem key={c.id} value={String(i)}>
+                                  {c.position}. {c.title || `Chapter ${c.position}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <span className="text-sm text-muted-foreground">
+                            Chapter {chapterIndex + 1} of {chapters.length}
+                          </span>
+                        </div>
+                      )}
+
+                      <h2 className="text-2xl font-semibold text-foreground mb-4">
+                        {chapter.title || `Chapter ${chapter.position}`}
+                      </h2>
+
+                      {chapter.summary && (
+                        <div className="mb-4">
+                          <h3 className="text-sm font-semibold text-neon-green mb-1">Summary</h3>
+                          <p className="text-muted-foreground whitespace-pre-line">{chapter.summary}</p>
+                        </div>
+                      )}
+
+                      {chapter.notes && (
+                        <div className="mb-6">
+                          <h3 className="text-sm font-semibold text-neon-green mb-1">Notes</h3>
+                          <p className="text-muted-foreground whitespace-pre-line">{chapter.notes}</p>
+                        </div>
+                      )}
+
+                      <div className="text-foreground leading-relaxed whitespace-pre-line">
+                        {chapter.content}
+                      </div>
+
+                      {chapter.endNotes && (
+                        <div className="mt-8 pt-6 border-t border-border">
+                          <h3 className="text-sm font-semibold text-neon-green mb-1">End Notes</h3>
+                          <p className="text-muted-foreground whitespace-pre-line">{chapter.endNotes}</p>
+                        </div>
+                      )}
+
+                      {chapters.length > 1 && (
+                        <div className="flex justify-between mt-8">
+                          <Button
+                            variant="outline"
+                            onClick={() => goToChapter(chapterIndex - 1)}
+                            disabled={chapterIndex === 0}
+                            className="border-border"
+                          >
+                            <ChevronLeft className="h-4 w-4 mr-1" />
+                            Previous Chapter
+                          </Button>
+                          <Button
+                            variant="outline"
+                            onClick={() => goToChapter(chapterIndex + 1)}
+                            disabled={chapterIndex === chapters.length - 1}
+                            className="border-border"
+                          >
+                            Next Chapter
+                            <ChevronRight className="h-4 w-4 ml-1" />
+                          </Button>
+                        </div>
+                      )}
+                    </>
+                  ) : fanwork.textContent ? (
+                    <div className="text-foreground leading-relaxed whitespace-pre-line">
+                      {fanwork.textContent}
+                    </div>
+                  ) : (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <BookOpen className="h-8 w-8 mx-auto mb-2 text-portal-blue" />
+                      This work doesn't have any text yet
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ) : fanwork.contentUrl ? (
+              <a href={fanwork.contentUrl} target="_blank" rel="noopener noreferrer">
+                <img
+                  src={fanwork.contentUrl}
+                  alt={fanwork.title}
+                  className="w-full rounded-lg border border-border"
+                />
+              </a>
+            ) : (
+              <div className="w-full h-64 bg-dark-elevated rounded-lg flex items-center justify-center">
+                <span className="text-muted-foreground">No Image Available</span>
+              </div>
+            )}
+
+            <CommentSection
+              fanworkId={fanworkId}
+              canModerate={canEdit}
+              commentPolicy={fanwork.commentPolicy}
+              commentCount={fanwork.counts?.comments}
+            />
+
+            <div className="text-center">
+              <Link href="/browse" className="text-portal-blue hover:underline text-sm">
+                Back to browsing
+              </Link>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
-import { useQuery } from "@tanstack/react-query";
+import { useFanworks } from "@/hooks/useFanworks";
+import { useFeed } from "@/hooks/useFeed";
+import { useAuth } from "@/hooks/useAuth";
 import Header from "@/components/header";
 import Sidebar from "@/components/sidebar";
 import ContentCard from "@/components/content-card";
@@ -13,27 +15,46 @@ export default function Home() {
     type: [] as string[],
     rating: [] as string[],
     tags: [] as string[],
+    tagMode: "all" as "all" | "any",
+    excludeTags: [] as string[],
+    excludeWarnings: [] as string[],
+    categories: [] as string[],
     search: "",
-    limit: 20,
-    offset: 0,
   });
   
   const [sortBy, setSortBy] = useState("latest");
   const [viewMode, setViewMode] = useState("grid");
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
+  const [feedMode, setFeedMode] = useState<"all" | "following">("all");
+  const { isAuthenticated } = useAuth();
 
-  const { data: fanworks = [], isLoading } = useQuery({
-    queryKey: ["/api/fanworks", filters, sortBy],
-    retry: false,
-  });
+  const showFollowing = isAuthenticated && feedMode === "following";
+  const latest = useFanworks({ ...filters, sortBy }, { enabled: !showFollowing });
+  const feed = useFeed({ enabled: showFollowing });
+  const {
+    fanworks,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = showFollowing ? feed : latest;
 
   const handleFilterChange = (newFilters: Partial<typeof filters>) => {
-    setFilters(prev => ({ ...prev, ...newFilters, offset: 0 }));
+    setFilters(prev => ({ ...prev, ...newFilters }));
+  };
+
+  const handleSearch = (search: string) => {
+    handleFilterChange({ search });
+    if (search) {
+      setSortBy("relevance");
+    } else if (sortBy === "relevance") {
+      setSortBy("latest");
+    }
   };
 
   return (
     <div className="min-h-screen bg-dark-bg">
-      <Header onSearch={(search) => handleFilterChange({ search })} />
+      <Header onSearch={handleSearch} />
       
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="flex gap-8">
@@ -47,16 +68,42 @@ export default function Home() {
             {/* Sort and View Options */}
             <div className="flex items-center justify-between mb-6">
               <div className="flex items-center space-x-4">
-                <h1 className="text-2xl font-bold text-foreground">Latest Fanworks</h1>
-                <span className="text-muted-foreground">{fanworks.length} results</span>
+                <h1 className="text-2xl font-bold text-foreground">
+                  {showFollowing ? "Following" : "Latest Fanworks"}
+                </h1>
+                {!showFollowing && (
+                  <span className="text-muted-foreground">{latest.totalCount} results</span>
+                )}
               </div>
               <div className="flex items-center space-x-4">
-                <Select value={sortBy} onValueChange={setSortBy}>
+                {isAuthenticated && (
+                  <div className="flex bg-dark-elevated rounded border border-border">
+                    <Button
+                      variant={feedMode === "all" ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => setFeedMode("all")}
+                      className={feedMode === "all" ? "bg-neon-green text-dark-bg" : ""}
+                    >
+                      All
+                    </Button>
+                    <Button
+                      variant={feedMode === "following" ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => setFeedMode("following")}
+                      className={feedMode === "following" ? "bg-neon-green text-dark-bg" : ""}
+                    >
+                      Following
+                    </Button>
+                  </div>
+                )}
+                <Select value={sortBy} onValueChange={setSortBy} disabled={showFollowing}>
                   <SelectTrigger className="w-40 bg-dark-elevated border-border">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="latest">Latest</SelectItem>
+                    <SelectItem value="relevance" disabled={!filters.search}>Best Match</SelectItem>
+                    <SelectItem value="trending">Trending</SelectItem>
                     <SelectItem value="popular">Most Popular</SelectItem>
                     <SelectItem value="favorited">Most Favorited</SelectItem>
                     <SelectItem value="commented">Most Commented</SelectItem>
@@ -104,6 +151,12 @@ export default function Home() {
                   />
                 ))}
               </div>
+            ) : showFollowing ? (
+              <div className="text-center py-16">
+                <div className="text-muted-foreground text-lg">
+                  Follow authors or subscribe to works and series to see their updates here
+                </div>
+              </div>
             ) : (
               <div className="text-center py-16">
                 <div className="text-muted-foreground text-lg mb-4">
@@ -119,14 +172,15 @@ export default function Home() {
             )}
 
             {/* Load More */}
-            {fanworks.length >= filters.limit && (
+            {hasNextPage && (
               <div className="text-center mt-12">
                 <Button
                   variant="outline"
-                  onClick={() => handleFilterChange({ offset: filters.offset + filters.limit })}
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
                   className="border-neon-green text-neon-green hover:bg-neon-green hover:text-dark-bg glow-neon"
                 >
-                  Load More Content
+                  {isFetchingNextPage ? "Loading..." : "Load More Content"}
                 </Button>
               </div>
             )}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import {
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useNotifications,
+  type NotificationItem as NotificationData,
+} from "@/hooks/useNotifications";
+import Header from "@/components/header";
+import NotificationItem from "@/components/notification-item";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Bell } from "lucide-react";
+
+export default function NotificationsPage() {
+  const [, setLocation] = useLocation();
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const {
+    notifications,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useNotifications({ unread: unreadOnly });
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const handleSelect = (notification: NotificationData) => {
+    if (!notification.readAt) {
+      markRead.mutate(notification.id);
+    }
+    if (notification.fanworkId) {
+      setLocation(`/works/${notification.fanworkId}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-dark-bg">
+      <Header />
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card className="bg-dark-surface border-border">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-2xl text-neon-green flex items-center gap-2">
+              <Bell className="h-6 w-6" />
+              Notifications
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setUnreadOnly(!unreadOnly)}
+                className="border-border"
+              >
+                {unreadOnly ? "Show all" : "Unread only"}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => markAllRead.mutate()}
+                disabled={markAllRead.isPending}
+                className="border-border"
+              >
+                Mark all read
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[...Array(5)].map((_, i) => (
+                  <div key={i} className="bg-dark-elevated rounded h-14 animate-pulse" />
+                ))}
+              </div>
+            ) : notifications.length > 0 ? (
+              <div className="space-y-1">
+                {notifications.map((notification) => (
+                  <NotificationItem key={notification.id} notification={notification} onSelect={handleSelect} />
+                ))}
+              </div>
+            ) : (
+              <p className="text-muted-foreground text-center py-12">
+                {unreadOnly ? "No unread notifications" : "No notifications yet"}
+              </p>
+            )}
+
+            {hasNextPage && (
+              <div className="text-center mt-6">
+                <Button
+                  variant="outline"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  className="border-neon-green text-neon-green hover:bg-neon-green hover:text-dark-bg"
+                >
+                  {isFetchingNextPage ? "Loading..." : "Load More"}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,230 +1,400 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useParams, useLocation } from "wouter";
+import type { User } from "@shared/schema";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getDisplayName } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
+import { useFanworks } from "@/hooks/useFanworks";
+import { useUserProfile, useUserBookmarks, useUserGifts } from "@/hooks/useProfile";
+import { usePseuds } from "@/hooks/usePseuds";
+import { useToast } from "@/hooks/use-toast";
 import Header from "@/components/header";
 import ContentCard from "@/components/content-card";
+import ContentFilterToggle from "@/components/content-filter-toggle";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { FileImage, BookOpen, Heart, Bookmark, MessageCircle, Calendar } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { FileImage, BookOpen, Heart, MessageCircle, Calendar, Users, UserPlus, UserCheck, Pencil, ExternalLink, MoreHorizontal, Ban, VolumeX } from "lucide-react";
 import { useState } from "react";
 
+// Public profile at /users/:username; /profile shows the signed-in user's own.
 export default function Profile() {
-  const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState("uploads");
+  const params = useParams<{ username?: string }>();
+  const { user, isAuthenticated } = useAuth();
+  const currentUser = user as User | undefined;
+  const username = params.username ?? currentUser?.username;
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [activeTab, setActiveTab] = useState("works");
 
-  const { data: userFanworks = [], isLoading: isLoadingFanworks } = useQuery({
-    queryKey: ["/api/fanworks", { authorId: user?.id }],
-    enabled: !!user?.id,
-    retry: false,
-  });
+  const { data: profile, isLoading } = useUserProfile(username);
+  const isOwnProfile = !!profile && profile.id === currentUser?.id;
 
-  const { data: likedFanworks = [], isLoading: isLoadingLiked } = useQuery({
-    queryKey: ["/api/user/liked-fanworks"],
-    enabled: !!user?.id && activeTab === "liked",
-    retry: false,
-  });
+  const {
+    fanworks: works,
+    totalCount: workCount,
+    isLoading: isLoadingWorks,
+    hasNextPage: hasMoreWorks,
+    fetchNextPage: fetchMoreWorks,
+    isFetchingNextPage: isFetchingMoreWorks,
+  } = useFanworks({ authorId: profile?.id }, { enabled: !!profile });
+
+  const {
+    fanworks: bookmarked,
+    isLoading: isLoadingBookmarks,
+    hasNextPage: hasMoreBookmarks,
+    fetchNextPage: fetchMoreBookmarks,
+    isFetchingNextPage: isFetchingMoreBookmarks,
+  } = useUserBookmarks(username, { enabled: activeTab === "bookmarks" });
+
+  const {
+    fanworks: gifts,
+    isLoading: isLoadingGifts,
+    hasNextPage: hasMoreGifts,
+    fetchNextPage: fetchMoreGifts,
+    isFetchingNextPage: isFetchingMoreGifts,
+  } = useUserGifts(username, { enabled: activeTab === "gifts" });
+
+  const { data: pseuds = [] } = usePseuds(username);
 
-  const { data: bookmarkedFanworks = [], isLoading: isLoadingBookmarked } = useQuery({
-    queryKey: ["/api/user/bookmarked-fanworks"],
-    enabled: !!user?.id && activeTab === "bookmarked",
-    retry: false,
+  const followMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/api/users/${profile!.id}/follow`, {
+        method: profile!.viewer.isFollowing ? "DELETE" : "POST",
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", username] });
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update follow",
+        variant: "destructive",
+      });
+    },
   });
 
-  if (!user) return null;
+  // Blocking stops someone interacting with you; muting only hides their works and comments from you
+  const relationMutation = useMutation({
+    mutationFn: (kind: "block" | "mute") => {
+      const active = kind === "block" ? profile!.viewer.isBlocking : profile!.viewer.isMuting;
+      return apiRequest(`/api/users/${profile!.id}/${kind}`, { method: active ? "DELETE" : "POST" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update user",
+        variant: "destructive",
+      });
+    },
+  });
 
-  const getStats = () => {
-    const artworkCount = userFanworks.filter((w: any) => w.type === "artwork").length;
-    const fanfictionCount = userFanworks.filter((w: any) => w.type === "fanfiction").length;
-    const totalLikes = userFanworks.reduce((sum: number, w: any) => sum + (w.counts?.likes || 0), 0);
-    const totalComments = userFanworks.reduce((sum: number, w: any) => sum + (w.counts?.comments || 0), 0);
+  const renderGrid = (items: any[], showAuthor: boolean) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {items.map((fanwork: any) => (
+        <ContentCard
+          key={fanwork.id}
+          fanwork={fanwork}
+          viewMode="grid"
+          showAuthor={showAuthor}
+        />
+      ))}
+    </div>
+  );
 
-    return {
-      artworkCount,
-      fanfictionCount,
-      totalLikes,
-      totalComments,
-    };
-  };
+  const renderSkeleton = () => (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {[...Array(6)].map((_, i) => (
+        <div key={i} className="bg-dark-surface rounded-lg h-80 animate-pulse" />
+      ))}
+    </div>
+  );
 
-  const stats = getStats();
+  const renderLoadMore = (hasMore: boolean, isFetching: boolean, fetchMore: () => void) =>
+    hasMore && (
+      <div className="text-center mt-12">
+        <Button
+          variant="outline"
+          onClick={fetchMore}
+          disabled={isFetching}
+          className="border-neon-green text-neon-green hover:bg-neon-green hover:text-dark-bg glow-neon"
+        >
+          {isFetching ? "Loading..." : "Load More"}
+        </Button>
+      </div>
+    );
 
   return (
     <div className="min-h-screen bg-dark-bg">
       <Header />
-      
+
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* Profile Header */}
-        <Card className="bg-dark-surface border-border mb-8">
-          <CardContent className="p-8">
-            <div className="flex items-start gap-6">
-              <Avatar className="w-24 h-24">
-                <AvatarImage src={user.profileImageUrl || ""} />
-                <AvatarFallback className="bg-neon-green text-dark-bg text-2xl">
-                  {user.firstName?.[0] || user.email?.[0] || "?"}
-                </AvatarFallback>
-              </Avatar>
-              
-              <div className="flex-1">
-                <h1 className="text-3xl font-bold text-foreground mb-2">
-                  {user.firstName && user.lastName 
-                    ? `${user.firstName} ${user.lastName}`
-                    : user.email
-                  }
-                </h1>
-                
-                <div className="flex items-center gap-4 text-muted-foreground mb-4">
-                  <div className="flex items-center gap-1">
-                    <Calendar className="h-4 w-4" />
-                    Joined {new Date(user.createdAt).toLocaleDateString()}
-                  </div>
-                </div>
+        {isLoading ? (
+          <div className="bg-dark-surface rounded-lg h-48 animate-pulse mb-8" />
+        ) : !profile ? (
+          <div className="text-center py-16">
+            <div className="text-muted-foreground text-lg">User not found</div>
+          </div>
+        ) : (
+          <>
+            {/* Profile Header */}
+            <Card className="bg-dark-surface border-border mb-8 overflow-hidden">
+              {profile.bannerImageUrl && (
+                <img
+                  src={profile.bannerImageUrl}
+                  alt=""
+                  className="w-full aspect-[3/1] object-cover"
+                />
+              )}
+              <CardContent className="p-8">
+                <div className="flex items-start gap-6">
+                  <Avatar className="w-24 h-24">
+                    <AvatarImage src={profile.profileImageUrl || ""} />
+                    <AvatarFallback className="bg-neon-green text-dark-bg text-2xl">
+                      {getDisplayName(profile)[0]?.toUpperCase() || "?"}
+                    </AvatarFallback>
+                  </Avatar>
+
+                  <div className="flex-1">
+                    <h1 className="text-3xl font-bold text-foreground">{getDisplayName(profile)}</h1>
+                    <p className="text-muted-foreground mb-2">
+                      @{profile.username}
+                      {profile.pronouns && <span> · {profile.pronouns}</span>}
+                    </p>
+
+                    {profile.bioHtml && (
+                      <div
+                        className="profile-bio text-foreground mb-4 space-y-2"
+                        // Rendered from markdown and sanitized on the server
+                        dangerouslySetInnerHTML={{ __html: profile.bioHtml }}
+                      />
+                    )}
+
+                    {profile.links.length > 0 && (
+                      <div className="flex flex-wrap gap-4 mb-4">
+                        {profile.links.map((link) => (
+                          <a
+                            key={link.url}
+                            href={link.url}
+                            target="_blank"
+                            rel="nofollow noopener noreferrer"
+                            className="flex items-center gap-1 text-sm text-portal-blue hover:underline"
+                          >
+                            <ExternalLink className="h-3 w-3" />
+                            {link.label}
+                          </a>
+                        ))}
+                      </div>
+                    )}
 
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-neon-green">{stats.artworkCount}</div>
-                    <div className="text-sm text-muted-foreground flex items-center justify-center gap-1">
-                      <FileImage className="h-4 w-4" />
-                      Artworks
+                    <div className="flex items-center gap-4 text-muted-foreground mb-4">
+                      {profile.createdAt && (
+                        <div className="flex items-center gap-1">
+                          <Calendar className="h-4 w-4" />
+                          Joined {new Date(profile.createdAt).toLocaleDateString()}
+                        </div>
+                      )}
+                      <div className="flex items-center gap-1">
+                        <Users className="h-4 w-4" />
+                        {profile.stats.followers} followers · {profile.stats.following} following
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      <div className="text-center">
+                        <div className="text-2xl font-bold text-neon-green">{profile.stats.artworks}</div>
+                        <div className="text-sm text-muted-foreground flex items-center justify-center gap-1">
+                          <FileImage className="h-4 w-4" />
+                          Artworks
+                        </div>
+                      </div>
+                      <div className="text-center">
+                        <div className="text-2xl font-bold text-portal-blue">{profile.stats.fanfictions}</div>
+                        <div className="text-sm text-muted-foreground flex items-center justify-center gap-1">
+                          <BookOpen className="h-4 w-4" />
+                          Fanfictions
+                        </div>
+                      </div>
+                      <div className="text-center">
+                        <div className="text-2xl font-bold text-warning-amber">{profile.stats.likesReceived}</div>
+                        <div className="text-sm text-muted-foreground flex items-center justify-center gap-1">
+                          <Heart className="h-4 w-4" />
+                          Total Likes
+                        </div>
+                      </div>
+                      <div className="text-center">
+                        <div className="text-2xl font-bold text-foreground">{profile.stats.commentsReceived}</div>
+                        <div className="text-sm text-muted-foreground flex items-center justify-center gap-1">
+                          <MessageCircle className="h-4 w-4" />
+                          Comments
+                        </div>
+                      </div>
                     </div>
                   </div>
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-portal-blue">{stats.fanfictionCount}</div>
-                    <div className="text-sm text-muted-foreground flex items-center justify-center gap-1">
-                      <BookOpen className="h-4 w-4" />
-                      Fanfictions
+
+                  {isOwnProfile && (
+                    <Button
+                      variant="outline"
+                      onClick={() => setLocation("/settings")}
+                      className="border-border"
+                    >
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit Profile
+                    </Button>
+                  )}
+
+                  {isAuthenticated && !isOwnProfile && (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => followMutation.mutate()}
+                        disabled={followMutation.isPending || profile.viewer.isBlocking}
+                        className={`border-border ${profile.viewer.isFollowing ? "text-neon-green" : ""}`}
+                      >
+                        {profile.viewer.isFollowing ? (
+                          <UserCheck className="h-4 w-4 mr-1" />
+                        ) : (
+                          <UserPlus className="h-4 w-4 mr-1" />
+                        )}
+                        {profile.viewer.isFollowing ? "Following" : "Follow"}
+                      </Button>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="outline" size="icon" className="border-border" aria-label="More actions">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="bg-dark-surface border-border">
+                          <DropdownMenuItem
+                            disabled={relationMutation.isPending}
+                            onClick={() => relationMutation.mutate("mute")}
+                          >
+                            <VolumeX className="h-4 w-4 mr-2" />
+                            {profile.viewer.isMuting ? "Unmute" : "Mute"}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            disabled={relationMutation.isPending}
+                            onClick={() => relationMutation.mutate("block")}
+                            className="text-red-500"
+                          >
+                            <Ban className="h-4 w-4 mr-2" />
+                            {profile.viewer.isBlocking ? "Unblock" : "Block"}
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <ContentFilterToggle className="mb-4" />
+
+            {/* Content Tabs */}
+            <Tabs value={activeTab} onValueChange={setActiveTab}>
+              <TabsList className="bg-dark-surface border-border mb-6">
+                <TabsTrigger value="works" className="data-[state=active]:bg-neon-green data-[state=active]:text-dark-bg">
+                  Works ({workCount})
+                </TabsTrigger>
+                <TabsTrigger value="bookmarks" className="data-[state=active]:bg-neon-green data-[state=active]:text-dark-bg">
+                  Bookmarks
+                </TabsTrigger>
+                <TabsTrigger value="gifts" className="data-[state=active]:bg-neon-green data-[state=active]:text-dark-bg">
+                  Gifts
+                </TabsTrigger>
+                <TabsTrigger value="pseuds" className="data-[state=active]:bg-neon-green data-[state=active]:text-dark-bg">
+                  Pseuds ({pseuds.length})
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="works">
+                {isLoadingWorks ? (
+                  renderSkeleton()
+                ) : works.length > 0 ? (
+                  renderGrid(works, false)
+                ) : (
+                  <div className="text-center py-16">
+                    <div className="text-muted-foreground text-lg mb-4">
+                      {isOwnProfile ? "You haven't uploaded any fanworks yet" : "No fanworks yet"}
                     </div>
+                    {isOwnProfile && (
+                      <Button
+                        onClick={() => setLocation("/upload")}
+                        className="bg-neon-green text-dark-bg hover:bg-neon-green/90"
+                      >
+                        Upload Your First Fanwork
+                      </Button>
+                    )}
                   </div>
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-warning-amber">{stats.totalLikes}</div>
-                    <div className="text-sm text-muted-foreground flex items-center justify-center gap-1">
-                      <Heart className="h-4 w-4" />
-                      Total Likes
+                )}
+                {renderLoadMore(hasMoreWorks, isFetchingMoreWorks, () => fetchMoreWorks())}
+              </TabsContent>
+
+              <TabsContent value="pseuds">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {pseuds.map((pseud) => (
+                    <Link key={pseud.id} href={`/users/${profile.username}/pseuds/${pseud.id}`}>
+                      <Card className="bg-dark-surface border-border hover:border-neon-green cursor-pointer transition-colors">
+                        <CardContent className="p-4">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="font-semibold text-foreground">{pseud.name}</span>
+                            {pseud.isDefault && <Badge variant="secondary">Default</Badge>}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {pseud.workCount} {pseud.workCount === 1 ? "work" : "works"}
+                          </div>
+                          {pseud.description && (
+                            <p className="text-sm text-muted-foreground mt-2 line-clamp-2">{pseud.description}</p>
+                          )}
+                        </CardContent>
+                      </Card>
+                    </Link>
+                  ))}
+                </div>
+              </TabsContent>
+
+              <TabsContent value="bookmarks">
+                {isLoadingBookmarks ? (
+                  renderSkeleton()
+                ) : bookmarked.length > 0 ? (
+                  renderGrid(bookmarked, true)
+                ) : (
+                  <div className="text-center py-16">
+                    <div className="text-muted-foreground text-lg">
+                      {isOwnProfile ? "You haven't bookmarked any fanworks yet" : "No public bookmarks"}
                     </div>
                   </div>
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-foreground">{stats.totalComments}</div>
-                    <div className="text-sm text-muted-foreground flex items-center justify-center gap-1">
-                      <MessageCircle className="h-4 w-4" />
-                      Comments
+                )}
+                {renderLoadMore(hasMoreBookmarks, isFetchingMoreBookmarks, () => fetchMoreBookmarks())}
+              </TabsContent>
+
+              <TabsContent value="gifts">
+                {isLoadingGifts ? (
+                  renderSkeleton()
+                ) : gifts.length > 0 ? (
+                  renderGrid(gifts, true)
+                ) : (
+                  <div className="text-center py-16">
+                    <div className="text-muted-foreground text-lg">
+                      {isOwnProfile ? "No one has gifted you a fanwork yet" : "No gifts yet"}
                     </div>
                   </div>
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Button 
-                  onClick={() => window.location.href = '/api/logout'}
-                  variant="outline"
-                  className="border-red-500 text-red-500 hover:bg-red-500 hover:text-white"
-                >
-                  Logout
-                </Button>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Content Tabs */}
-        <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="bg-dark-surface border-border mb-6">
-            <TabsTrigger value="uploads" className="data-[state=active]:bg-neon-green data-[state=active]:text-dark-bg">
-              My Uploads ({userFanworks.length})
-            </TabsTrigger>
-            <TabsTrigger value="liked" className="data-[state=active]:bg-neon-green data-[state=active]:text-dark-bg">
-              Liked
-            </TabsTrigger>
-            <TabsTrigger value="bookmarked" className="data-[state=active]:bg-neon-green data-[state=active]:text-dark-bg">
-              Bookmarked
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="uploads">
-            {isLoadingFanworks ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {[...Array(6)].map((_, i) => (
-                  <div key={i} className="bg-dark-surface rounded-lg h-80 animate-pulse" />
-                ))}
-              </div>
-            ) : userFanworks.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {userFanworks.map((fanwork: any) => (
-                  <ContentCard 
-                    key={fanwork.id} 
-                    fanwork={fanwork} 
-                    viewMode="grid"
-                    showAuthor={false}
-                  />
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-16">
-                <div className="text-muted-foreground text-lg mb-4">
-                  You haven't uploaded any fanworks yet
-                </div>
-                <Button 
-                  onClick={() => window.location.href = '/upload'}
-                  className="bg-neon-green text-dark-bg hover:bg-neon-green/90"
-                >
-                  Upload Your First Fanwork
-                </Button>
-              </div>
-            )}
-          </TabsContent>
-
-          <TabsContent value="liked">
-            {isLoadingLiked ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {[...Array(6)].map((_, i) => (
-                  <div key={i} className="bg-dark-surface rounded-lg h-80 animate-pulse" />
-                ))}
-              </div>
-            ) : likedFanworks.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {likedFanworks.map((fanwork: any) => (
-                  <ContentCard 
-                    key={fanwork.id} 
-                    fanwork={fanwork} 
-                    viewMode="grid"
-                  />
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-16">
-                <div className="text-muted-foreground text-lg">
-                  You haven't liked any fanworks yet
-                </div>
-              </div>
-            )}
-          </TabsContent>
-
-          <TabsContent value="bookmarked">
-            {isLoadingBookmarked ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {[...Array(6)].map((_, i) => (
-                  <div key={i} className="bg-dark-surface rounded-lg h-80 animate-pulse" />
-                ))}
-              </div>
-            ) : bookmarkedFanworks.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {bookmarkedFanworks.map((fanwork: any) => (
-                  <ContentCard 
-                    key={fanwork.id} 
-                    fanwork={fanwork} 
-                    viewMode="grid"
-                  />
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-16">
-                <div className="text-muted-foreground text-lg">
-                  You haven't bookmarked any fanworks yet
-                </div>
-              </div>
-            )}
-          </TabsContent>
-        </Tabs>
+                )}
+                {renderLoadMore(hasMoreGifts, isFetchingMoreGifts, () => fetchMoreGifts())}
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,92 @@
+import { Link, useParams } from "wouter";
+import { useFanworks } from "@/hooks/useFanworks";
+import { usePseuds } from "@/hooks/usePseuds";
+import Header from "@/components/header";
+import ContentCard from "@/components/content-card";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+
+// One of a user's pseuds and the works credited to it
+export default function PseudPage() {
+  const { username, pseudId } = useParams<{ username: string; pseudId: string }>();
+  const { data: pseuds = [], isLoading } = usePseuds(username);
+  const pseud = pseuds.find((candidate) => candidate.id === parseInt(pseudId));
+
+  const {
+    fanworks,
+    isLoading: isLoadingWorks,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useFanworks({ pseudId: pseud?.id }, { enabled: !!pseud });
+
+  return (
+    <div className="min-h-screen bg-dark-bg">
+      <Header />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading ? (
+          <div className="bg-dark-surface rounded-lg h-32 animate-pulse mb-8" />
+        ) : !pseud ? (
+          <div className="text-center py-16">
+            <div className="text-muted-foreground text-lg">Pseud not found</div>
+          </div>
+        ) : (
+          <>
+            <Card className="bg-dark-surface border-border mb-8">
+              <CardContent className="p-8">
+                <div className="flex items-center gap-3 mb-2">
+                  <h1 className="text-3xl font-bold text-foreground">{pseud.name}</h1>
+                  {pseud.isDefault && <Badge variant="secondary">Default</Badge>}
+                </div>
+                <p className="text-muted-foreground mb-4">
+                  Pseud of{" "}
+                  <Link href={`/users/${username}`} className="text-portal-blue hover:underline">
+                    @{username}
+                  </Link>
+                  {" · "}
+                  {pseud.workCount} {pseud.workCount === 1 ? "work" : "works"}
+                </p>
+                {pseud.description && (
+                  <p className="text-foreground whitespace-pre-line">{pseud.description}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {isLoadingWorks ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {[...Array(6)].map((_, i) => (
+                  <div key={i} className="bg-dark-surface rounded-lg h-80 animate-pulse" />
+                ))}
+              </div>
+            ) : fanworks.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {fanworks.map((fanwork: any) => (
+                  <ContentCard key={fanwork.id} fanwork={fanwork} viewMode="grid" showAuthor={false} />
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-16">
+                <div className="text-muted-foreground text-lg">No fanworks under this pseud yet</div>
+              </div>
+            )}
+
+            {hasNextPage && (
+              <div className="text-center mt-12">
+                <Button
+                  variant="outline"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  className="border-neon-green text-neon-green hover:bg-neon-green hover:text-dark-bg glow-neon"
+                >
+                  {isFetchingNextPage ? "Loading..." : "Load More"}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
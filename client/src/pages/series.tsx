@@ -0,0 +1,126 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import type { Fanwork, Series, User } from "@shared/schema";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import Header from "@/components/header";
+import ContentCard from "@/components/content-card";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Bell, BellOff, Library } from "lucide-react";
+
+type SeriesWithWorks = Series & {
+  works: (Fanwork & { position: number })[];
+  isSubscribed: boolean;
+};
+
+export default function SeriesPage() {
+  const { id } = useParams<{ id: string }>();
+  const { user, isAuthenticated } = useAuth();
+  const { toast } = useToast();
+
+  const { data: series, isLoading } = useQuery<SeriesWithWorks>({
+    queryKey: [`/api/series/${id}`],
+    retry: false,
+  });
+
+  const subscribeMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/api/series/${id}/subscribe`, { method: series?.isSubscribed ? "DELETE" : "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/series/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update subscription",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubscribe = isAuthenticated && !!series && series.authorId !== (user as User | undefined)?.id;
+
+  return (
+    <div className="min-h-screen bg-dark-bg">
+      <Header />
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading ? (
+          <div className="space-y-4">
+            <div className="bg-dark-surface rounded-lg h-40 animate-pulse" />
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="bg-dark-surface rounded-lg h-32 animate-pulse" />
+            ))}
+          </div>
+        ) : !series ? (
+          <div className="text-center py-16">
+            <div className="text-muted-foreground text-lg">Series not found</div>
+          </div>
+        ) : (
+          <>
+            {/* Series Header */}
+            <Card className="bg-dark-surface border-border mb-8">
+              <CardContent className="p-8">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <h1 className="text-3xl font-bold text-foreground flex items-center gap-3">
+                    <Library className="h-7 w-7 text-portal-blue" />
+                    {series.title}
+                  </h1>
+                  <Badge className={series.isComplete ? "bg-neon-green text-dark-bg" : "bg-warning-amber text-dark-bg"}>
+                    {series.isComplete ? "Complete" : "In Progress"}
+                  </Badge>
+                </div>
+                <p className="text-muted-foreground whitespace-pre-line mb-4">
+                  {series.summary || "No summary available"}
+                </p>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="text-sm text-muted-foreground">
+                    {series.works.length} {series.works.length === 1 ? "part" : "parts"}
+                  </div>
+                  {canSubscribe && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => subscribeMutation.mutate()}
+                      disabled={subscribeMutation.isPending}
+                      className={`border-border ${series.isSubscribed ? "text-portal-blue" : ""}`}
+                    >
+                      {series.isSubscribed ? (
+                        <BellOff className="h-4 w-4 mr-1" />
+                      ) : (
+                        <Bell className="h-4 w-4 mr-1" />
+                      )}
+                      {series.isSubscribed ? "Unsubscribe" : "Subscribe"}
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Parts in reading order */}
+            {series.works.length > 0 ? (
+              <ol className="space-y-4">
+                {series.works.map((work) => (
+                  <li key={work.id}>
+                    <div className="text-sm font-semibold text-neon-green mb-2">Part {work.position}</div>
+                    <ContentCard fanwork={work} viewMode="list" />
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <div className="text-center py-16">
+                <div className="text-muted-foreground text-lg">
+                  This series doesn't have any parts yet
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
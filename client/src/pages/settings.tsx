@@ -0,0 +1,373 @@
+import { useEffect, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { z } from "zod";
+import type { User } from "@shared/schema";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserProfile } from "@/hooks/useProfile";
+import { useToast } from "@/hooks/use-toast";
+import Header from "@/components/header";
+import PseudManager from "@/components/pseud-manager";
+import ContentFilterManager from "@/components/content-filter-manager";
+import UserRelationManager from "@/components/user-relation-manager";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Settings as SettingsIcon, Plus, X, ImageIcon } from "lucide-react";
+
+const linkSchema = z.object({
+  label: z.string().trim().min(1, "Label is required").max(50),
+  url: z.string().trim().url("Enter a full URL").regex(/^https?:\/\//i, "Links must use http or https"),
+});
+
+const settingsSchema = z.object({
+  firstName: z.string().max(100),
+  lastName: z.string().max(100),
+  pronouns: z.string().max(50),
+  bio: z.string().max(5000),
+  links: z.array(linkSchema).max(10),
+});
+
+type SettingsFormData = z.infer<typeof settingsSchema>;
+
+const imageTypes = ["image/jpeg", "image/jpg", "image/png", "image/gif"];
+
+export default function Settings() {
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const username = (user as User | undefined)?.username;
+  const { toast } = useToast();
+  const { data: profile, isLoading } = useUserProfile(username);
+
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [bannerFile, setBannerFile] = useState<File | null>(null);
+  const [removeAvatar, setRemoveAvatar] = useState(false);
+  const [removeBanner, setRemoveBanner] = useState(false);
+
+  const form = useForm<SettingsFormData>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: { firstName: "", lastName: "", pronouns: "", bio: "", links: [] },
+  });
+  const links = useFieldArray({ control: form.control, name: "links" });
+
+  useEffect(() => {
+    if (!profile) return;
+    form.reset({
+      firstName: profile.firstName || "",
+      lastName: profile.lastName || "",
+      pronouns: profile.pronouns || "",
+      bio: profile.bio || "",
+      links: profile.links,
+    });
+  }, [profile]);
+
+  // Object URLs for picked files, so the new images can be previewed before saving
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+  const [bannerPreview, setBannerPreview] = useState<string | null>(null);
+  useEffect(() => {
+    const url = avatarFile ? URL.createObjectURL(avatarFile) : null;
+    setAvatarPreview(url);
+    return () => { if (url) URL.revokeObjectURL(url); };
+  }, [avatarFile]);
+  useEffect(() => {
+    const url = bannerFile ? URL.createObjectURL(bannerFile) : null;
+    setBannerPreview(url);
+    return () => { if (url) URL.revokeObjectURL(url); };
+  }, [bannerFile]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: SettingsFormData) => {
+      const formData = new FormData();
+      formData.append("firstName", data.firstName);
+      formData.append("lastName", data.lastName);
+      formData.append("pronouns", data.pronouns);
+      formData.append("bio", data.bio);
+      formData.append("links", JSON.stringify(data.links));
+      if (avatarFile) formData.append("avatar", avatarFile);
+      else if (removeAvatar) formData.append("removeAvatar", "true");
+      if (bannerFile) formData.append("banner", bannerFile);
+      else if (removeBanner) formData.append("removeBanner", "true");
+
+      return apiRequest("/api/users/me", { method: "PATCH", body: formData });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Saved",
+        description: "Your profile has been updated.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/fanworks"] });
+      setLocation(`/users/${username}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pickImage = (file: File | undefined, onPick: (file: File) => void) => {
+    if (!file) return;
+    if (!imageTypes.includes(file.type)) {
+      toast({
+        title: "Invalid File Type",
+        description: "Please select an image file (JPEG, PNG or GIF)",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (file.size > 10 * 1024 * 1024) {
+      toast({
+        title: "File Too Large",
+        description: "Please select a file smaller than 10MB",
+        variant: "destructive",
+      });
+      return;
+    }
+    onPick(file);
+  };
+
+  const avatarSrc = avatarPreview ?? (removeAvatar ? null : profile?.profileImageUrl);
+  const bannerSrc = bannerPreview ?? (removeBanner ? null : profile?.bannerImageUrl);
+
+  return (
+    <div className="min-h-screen bg-dark-bg">
+      <Header />
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {isLoading || !profile ? (
+          <div className="bg-dark-surface rounded-lg h-96 animate-pulse" />
+        ) : (
+          <Card className="bg-dark-surface border-border">
+            <CardHeader>
+              <CardTitle className="text-2xl text-neon-green flex items-center gap-2">
+                <SettingsIcon className="h-6 w-6" />
+                Profile Settings
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-6">
+                  {/* Banner */}
+                  <div className="space-y-2">
+                    <FormLabel>Banner</FormLabel>
+                    <div className="relative h-32 rounded-lg overflow-hidden bg-dark-elevated border border-border">
+                      {bannerSrc ? (
+                        <img src={bannerSrc} alt="Profile banner" className="w-full h-full object-cover" />
+                      ) : (
+                        <div className="flex items-center justify-center h-full text-muted-foreground">
+                          <ImageIcon className="h-8 w-8" />
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <label className="text-sm text-neon-green cursor-pointer hover:underline">
+                        Choose banner
+                        <input
+                          type="file"
+                          className="hidden"
+                          accept="image/*"
+                          onChange={(e) => pickImage(e.target.files?.[0], (file) => {
+                            setBannerFile(file);
+                            setRemoveBanner(false);
+                          })}
+                        />
+                      </label>
+                      {bannerSrc && (
+                        <button
+                          type="button"
+                          className="text-sm text-muted-foreground hover:text-red-500"
+                          onClick={() => { setBannerFile(null); setRemoveBanner(true); }}
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">Cropped to 1500×500 from the centre of the image.</p>
+                  </div>
+
+                  {/* Avatar */}
+                  <div className="flex items-center gap-4">
+                    <Avatar className="w-20 h-20">
+                      <AvatarImage src={avatarSrc || ""} />
+                      <AvatarFallback className="bg-neon-green text-dark-bg text-2xl">
+                        {profile.username[0]?.toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="space-y-1">
+                      <div className="flex gap-2">
+                        <label className="text-sm text-neon-green cursor-pointer hover:underline">
+                          Choose avatar
+                          <input
+                            type="file"
+                            className="hidden"
+                            accept="image/*"
+                            onChange={(e) => pickImage(e.target.files?.[0], (file) => {
+                              setAvatarFile(file);
+                              setRemoveAvatar(false);
+                            })}
+                          />
+                        </label>
+                        {avatarSrc && (
+                          <button
+                            type="button"
+                            className="text-sm text-muted-foreground hover:text-red-500"
+                            onClick={() => { setAvatarFile(null); setRemoveAvatar(true); }}
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">Cropped to a 256×256 square.</p>
+                    </div>
+                  </div>
+
+                  <div className="grid md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="firstName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>First Name</FormLabel>
+                          <FormControl>
+                            <Input className="bg-dark-elevated border-border" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="lastName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Last Name</FormLabel>
+                          <FormControl>
+                            <Input className="bg-dark-elevated border-border" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="pronouns"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Pronouns</FormLabel>
+                        <FormControl>
+                          <Input placeholder="they/them" className="bg-dark-elevated border-border" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="bio"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Bio</FormLabel>
+                        <FormControl>
+                          <Textarea rows={6} className="bg-dark-elevated border-border" {...field} />
+                        </FormControl>
+                        <FormDescription>Markdown is supported.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* External links */}
+                  <div className="space-y-2">
+                    <FormLabel>Links</FormLabel>
+                    {links.fields.map((link, index) => (
+                      <div key={link.id} className="flex items-start gap-2">
+                        <FormField
+                          control={form.control}
+                          name={`links.${index}.label`}
+                          render={({ field }) => (
+                            <FormItem className="w-1/3">
+                              <FormControl>
+                                <Input placeholder="Label" className="bg-dark-elevated border-border" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`links.${index}.url`}
+                          render={({ field }) => (
+                            <FormItem className="flex-1">
+                              <FormControl>
+                                <Input placeholder="https://" className="bg-dark-elevated border-border" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <Button type="button" variant="ghost" size="sm" onClick={() => links.remove(index)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    {links.fields.length < 10 && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="border-border"
+                        onClick={() => links.append({ label: "", url: "" })}
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Link
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="border-border"
+                      onClick={() => setLocation(`/users/${profile.username}`)}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      disabled={saveMutation.isPending}
+                      className="bg-neon-green text-dark-bg hover:bg-neon-green/90"
+                    >
+                      {saveMutation.isPending ? "Saving..." : "Save Profile"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        )}
+
+        {profile && <PseudManager username={profile.username} />}
+
+        {profile && <ContentFilterManager />}
+
+        {profile && <UserRelationManager kind="mute" />}
+
+        {profile && <UserRelationManager kind="block" />}
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
@@ -7,11 +8,20 @@ const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-t
 const JWT_EXPIRES_IN = '7d';
 
 export interface AuthRequest extends Request {
-  user?: {
-    id: number;
-    email: string;
-    username: string;
-  };
+  user?: Express.User;
+}
+
+// The JWT middleware below is what sets req.user, so Express's own user type
+// (left empty by passport) is the same shape and AuthRequest handlers fit app.get etc.
+declare global {
+  namespace Express {
+    interface User {
+      id: number;
+      email: string;
+      username: string;
+      ageVerified: boolean;
+    }
+  }
 }
 
 export async function hashPassword(password: string): Promise<string> {
@@ -56,7 +66,8 @@ export async function authenticateToken(req: AuthRequest, res: Response, next: N
     req.user = {
       id: user.id,
       email: user.email,
-      username: user.username
+      username: user.username,
+      ageVerified: user.ageVerified,
     };
     next();
   } catch (error) {
@@ -78,7 +89,8 @@ export async function optionalAuth(req: AuthRequest, res: Response, next: NextFu
           req.user = {
             id: user.id,
             email: user.email,
-            username: user.username
+            username: user.username,
+            ageVerified: user.ageVerified,
           };
         }
       } catch (error) {
@@ -120,7 +132,8 @@ export async function requireModerator(req: AuthRequest, res: Response, next: Ne
     req.user = {
       id: user.id,
       email: user.email,
-      username: user.username
+      username: user.username,
+      ageVerified: user.ageVerified,
     };
     next();
   } catch (error) {
@@ -159,7 +172,8 @@ export async function requireAdmin(req: AuthRequest, res: Response, next: NextFu
     req.user = {
       id: user.id,
       email: user.email,
-      username: user.username
+      username: user.username,
+      ageVerified: user.ageVerified,
     };
     next();
   } catch (error) {
@@ -193,17 +207,58 @@ export async function requireAgeVerification(req: AuthRequest, res: Response, ne
     }
 
     if (!user.ageVerified) {
-      return res.status(403).json({ message: 'Age verification required for 18+ content' });
+      return sendAgeGateRequired(res);
     }
 
     req.user = {
       id: user.id,
       email: user.email,
-      username: user.username
+      username: user.username,
+      ageVerified: user.ageVerified,
     };
     next();
   } catch (error) {
     console.error('Age verification error:', error);
     return res.status(500).json({ message: 'Authentication failed' });
   }
-}
\ No newline at end of file
+}
+// Ratings only shown to signed-in users who have confirmed they're adults
+export const AGE_GATED_RATINGS = ['mature', 'explicit'];
+
+export function canViewRating(req: AuthRequest, rating: string): boolean {
+  return !AGE_GATED_RATINGS.includes(rating) || !!req.user?.ageVerified;
+}
+
+// A distinct code so the client can show an age gate rather than a generic error
+export function sendAgeGateRequired(res: Response) {
+  return res.status(403).json({
+    message: 'Age verification required for 18+ content',
+    code: 'AGE_GATE_REQUIRED',
+  });
+}
+
+// Uploaded files are fetched by <img> tags and links, which can't carry the
+// JWT, so files of age-gated works are only served from short-lived signed
+// URLs handed to viewers allowed to see them.
+const UPLOAD_URL_TTL_SECONDS = 60 * 60;
+
+function uploadSignature(url: string, expires: number): string {
+  return crypto.createHmac('sha256', JWT_SECRET).update(`${url}:${expires}`).digest('base64url');
+}
+
+export function signUploadUrl(url: string): string {
+  // Expiry is rounded to the hour so repeat visits reuse the browser's cached copy
+  const now = Math.floor(Date.now() / 1000);
+  const expires = (Math.floor(now / UPLOAD_URL_TTL_SECONDS) + 2) * UPLOAD_URL_TTL_SECONDS;
+  return `${url}?expires=${expires}&signature=${uploadSignature(url, expires)}`;
+}
+
+export function hasValidUploadSignature(url: string, query: Record<string, unknown>): boolean {
+  const expires = Number(query.expires);
+  if (typeof query.signature !== 'string' || !Number.isInteger(expires) || expires * 1000 < Date.now()) {
+    return false;
+  }
+  const expected = Buffer.from(uploadSignature(url, expires));
+  const given = Buffer.from(query.signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
@@ -0,0 +1,26 @@
+import { diffLines, diffWords } from "diff";
+
+export const diffModes = ["line", "word"] as const;
+export type DiffMode = (typeof diffModes)[number];
+
+export interface DiffPart {
+  type: "added" | "removed" | "unchanged";
+  value: string;
+}
+
+// Word diffs of a long, heavily rewritten work can take a while; past this
+// they fall back to a line diff rather than hold up the request.
+const WORD_DIFF_TIMEOUT_MS = 2000;
+
+export function diffText(before: string | null, after: string | null, mode: DiffMode): DiffPart[] {
+  const oldText = before ?? "";
+  const newText = after ?? "";
+
+  const changes = (mode === "word" ? diffWords(oldText, newText, { timeout: WORD_DIFF_TIMEOUT_MS }) : undefined)
+    ?? diffLines(oldText, newText);
+
+  return changes.map(change => ({
+    type: change.added ? "added" : change.removed ? "removed" : "unchanged",
+    value: change.value,
+  }));
+}
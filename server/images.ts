@@ -0,0 +1,56 @@
+import sharp from "sharp";
+import fs from "fs";
+import path from "path";
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Region of the original image to keep, in source pixels
+export interface CropRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export class InvalidImageError extends Error {
+  constructor(message = "Could not process image") {
+    super(message);
+    this.name = "InvalidImageError";
+  }
+}
+
+export const AVATAR_SIZE: ImageSize = { width: 256, height: 256 };
+export const BANNER_SIZE: ImageSize = { width: 1500, height: 500 };
+
+// Crops an uploaded image to the given region (or the centre, when none is
+// given), scales it to `size` and re-encodes it as WebP. The original upload is
+// replaced; the returned value is the public /uploads URL of the result.
+export async function processImageUpload(
+  file: Express.Multer.File,
+  size: ImageSize,
+  crop?: CropRegion,
+): Promise<string> {
+  const outputName = `${path.basename(file.filename, path.extname(file.filename))}.webp`;
+  const outputPath = path.join(path.dirname(file.path), outputName);
+
+  try {
+    let image = sharp(file.path).rotate();
+    if (crop) {
+      image = image.extract(crop);
+    }
+    await image
+      .resize(size.width, size.height, { fit: "cover", position: "centre" })
+      .webp({ quality: 85 })
+      .toFile(outputPath);
+  } catch {
+    // Unreadable files and crop regions outside the image both land here
+    throw new InvalidImageError();
+  } finally {
+    await fs.promises.unlink(file.path).catch(() => undefined);
+  }
+
+  return `/uploads/${outputName}`;
+}
@@ -1,5 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startPublishScheduler } from "./scheduler";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -66,5 +68,25 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startPublishScheduler();
+    storage.backfillDefaultPseuds()
+      .then(count => {
+        if (count > 0) log(`created default pseuds for ${count} accounts`);
+      })
+      .catch(error => console.error('Error backfilling default pseuds:', error));
+    storage.normalizeFanworkRatings()
+      .then(count => {
+        if (count > 0) log(`normalized the rating of ${count} fanworks`);
+      })
+      .catch(error => console.error('Error normalizing fanwork ratings:', error));
+    storage.backfillPublishedAt()
+      .then(count => {
+        if (count > 0) log(`recorded the publication time of ${count} fanworks`);
+      })
+      .catch(error => console.error('Error backfilling publication times:', error));
+    // Keeps the search index complete for works written before it existed
+    storage.reindexAllFanworks()
+      .then(count => log(`indexed ${count} fanworks for search`))
+      .catch(error => console.error('Error reindexing fanworks:', error));
   });
 })();
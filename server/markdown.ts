@@ -0,0 +1,24 @@
+import { marked } from "marked";
+import sanitizeHtml from "sanitize-html";
+
+// User-written markdown may carry raw HTML, so the rendered output is reduced
+// to formatting tags and safe links before it reaches a browser.
+const sanitizeOptions: sanitizeHtml.IOptions = {
+  allowedTags: [
+    "p", "br", "hr", "strong", "em", "del", "code", "pre", "blockquote",
+    "ul", "ol", "li", "h1", "h2", "h3", "h4", "h5", "h6", "a",
+  ],
+  allowedAttributes: {
+    a: ["href", "title", "rel", "target"],
+  },
+  allowedSchemes: ["http", "https", "mailto"],
+  transformTags: {
+    a: sanitizeHtml.simpleTransform("a", { rel: "nofollow noopener noreferrer", target: "_blank" }),
+  },
+};
+
+export function renderMarkdown(source: string | null | undefined): string {
+  if (!source) return "";
+  const html = marked.parse(source, { async: false, gfm: true, breaks: true });
+  return sanitizeHtml(html, sanitizeOptions);
+}
@@ -0,0 +1,107 @@
+import { storage } from "./storage";
+import { pushToUser } from "./realtime";
+import type { Comment, Fanwork, InsertNotification, Report } from "@shared/schema";
+
+// Notifications are a side effect of whatever the user just did, so failing to
+// write one is logged rather than failing that request.
+async function notify(notification: InsertNotification): Promise<void> {
+  // Nobody needs to hear about their own activity
+  if (notification.actorId && notification.actorId === notification.userId) return;
+
+  try {
+    const created = await storage.createNotification(notification);
+    const withContext = await storage.getNotification(created.id);
+    if (withContext) {
+      pushToUser(created.userId, { type: "notification", notification: withContext });
+    }
+  } catch (error) {
+    console.error('Error creating notification:', error);
+  }
+}
+
+// Tells the author about a new comment on their work and, once it is visible,
+// tells the person being replied to.
+export async function notifyCommentCreated(comment: Comment, fanwork: Fanwork): Promise<void> {
+  const parent = comment.parentId ? await storage.getComment(comment.parentId) : undefined;
+  const replyRecipient = comment.isApproved ? parent?.userId : null;
+
+  if (replyRecipient !== fanwork.authorId) {
+    await notify({
+      userId: fanwork.authorId,
+      actorId: comment.userId,
+      type: "comment",
+      fanworkId: fanwork.id,
+      commentId: comment.id,
+    });
+  }
+
+  if (replyRecipient) {
+    await notifyReply(comment, replyRecipient);
+  }
+}
+
+// Held comments only reach the person they reply to once the author lets them through
+export async function notifyCommentApproved(comment: Comment): Promise<void> {
+  const parent = comment.parentId ? await storage.getComment(comment.parentId) : undefined;
+  if (parent?.userId) {
+    await notifyReply(comment, parent.userId);
+  }
+}
+
+async function notifyReply(comment: Comment, recipientId: number): Promise<void> {
+  await notify({
+    userId: recipientId,
+    actorId: comment.userId,
+    type: "reply",
+    fanworkId: comment.fanworkId,
+    commentId: comment.id,
+  });
+}
+
+export async function notifyFanworkLiked(fanworkId: number, actorId: number): Promise<void> {
+  const fanwork = await storage.getFanwork(fanworkId);
+  if (fanwork) {
+    await notify({ userId: fanwork.authorId, actorId, type: "like", fanworkId });
+  }
+}
+
+export async function notifyFanworkBookmarked(fanworkId: number, actorId: number): Promise<void> {
+  const fanwork = await storage.getFanwork(fanworkId);
+  if (fanwork) {
+    await notify({ userId: fanwork.authorId, actorId, type: "bookmark", fanworkId });
+  }
+}
+
+export async function notifyReportResolved(report: Report): Promise<void> {
+  await notify({
+    userId: report.reporterId,
+    type: "report_resolved",
+    fanworkId: report.fanworkId,
+    commentId: report.commentId,
+    reportId: report.id,
+    message: report.moderationAction
+      ? `Your report was ${report.status}: ${report.moderationAction}`
+      : `Your report was ${report.status}`,
+  });
+}
+
+export async function notifyCreatorInvited(fanwork: Fanwork, inviteeId: number, actorId: number): Promise<void> {
+  await notify({ userId: inviteeId, actorId, type: "cocreator_invite", fanworkId: fanwork.id });
+}
+
+export async function notifyCreatorAccepted(fanwork: Fanwork, creatorId: number): Promise<void> {
+  await notify({ userId: fanwork.authorId, actorId: creatorId, type: "cocreator_accepted", fanworkId: fanwork.id });
+}
+
+// Recipients of a draft or scheduled work hear about it once it is published
+export async function notifyGifted(fanwork: Fanwork, recipientIds: number[], actorId: number): Promise<void> {
+  if (fanwork.status !== "published") return;
+  for (const recipientId of recipientIds) {
+    await notify({ userId: recipientId, actorId, type: "gift", fanworkId: fanwork.id });
+  }
+}
+
+export async function notifyFanworkPublished(fanwork: Fanwork): Promise<void> {
+  const recipientIds = await storage.getFanworkGiftRecipients(fanwork.id);
+  await notifyGifted(fanwork, recipientIds, fanwork.authorId);
+}
@@ -0,0 +1,170 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { verifyToken, AGE_GATED_RATINGS } from "./auth";
+import { storage, type CommentThread, type NotificationWithContext } from "./storage";
+import type { Comment } from "@shared/schema";
+
+// Messages the server pushes to clients
+export type RealtimeEvent =
+  | { type: "notification"; notification: NotificationWithContext }
+  | { type: "comment"; fanworkId: number; comment: CommentThread };
+
+// Messages clients send: which fanwork page they currently have open
+type ClientMessage =
+  | { type: "subscribe"; fanworkId: number }
+  | { type: "unsubscribe"; fanworkId: number };
+
+const socketsByUser = new Map<number, Set<WebSocket>>();
+const socketsByFanwork = new Map<number, Set<WebSocket>>();
+const userBySocket = new WeakMap<WebSocket, number>();
+
+function addTo<K>(map: Map<K, Set<WebSocket>>, key: K, socket: WebSocket) {
+  const sockets = map.get(key) ?? new Set<WebSocket>();
+  sockets.add(socket);
+  map.set(key, sockets);
+}
+
+function removeFrom<K>(map: Map<K, Set<WebSocket>>, key: K, socket: WebSocket) {
+  const sockets = map.get(key);
+  if (!sockets) return;
+  sockets.delete(socket);
+  if (sockets.size === 0) map.delete(key);
+}
+
+function send(sockets: Set<WebSocket> | undefined, event: RealtimeEvent, skipUsers?: Set<number>) {
+  if (!sockets) return;
+  const payload = JSON.stringify(event);
+  sockets.forEach(socket => {
+    if (skipUsers?.has(userBySocket.get(socket)!)) return;
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(payload);
+    }
+  });
+}
+
+export function pushToUser(userId: number, event: RealtimeEvent) {
+  send(socketsByUser.get(userId), event);
+}
+
+export function pushToFanworkViewers(fanworkId: number, event: RealtimeEvent, skipUsers?: Set<number>) {
+  send(socketsByFanwork.get(fanworkId), event, skipUsers);
+}
+
+// Sends a newly visible comment to everyone reading the work, shaped like the
+// threads returned by GET /api/fanworks/:id/comments so clients can splice it in.
+// Readers who muted the commenter don't get it.
+export async function publishComment(comment: Comment): Promise<void> {
+  if (!comment.isApproved || socketsByFanwork.size === 0) return;
+
+  try {
+    const deleted = !!comment.deletedAt;
+    const author = comment.userId && !deleted ? await storage.getUserById(comment.userId) : undefined;
+    const mutedBy = new Set(comment.userId ? await storage.getMuterIds(comment.userId) : []);
+    pushToFanworkViewers(comment.fanworkId, {
+      type: "comment",
+      fanworkId: comment.fanworkId,
+      comment: {
+        ...comment,
+        // Same masking as the comment listing
+        userId: deleted ? null : comment.userId,
+        guestName: deleted ? null : comment.guestName,
+        deletedBy: null,
+        user: author
+          ? {
+              id: author.id,
+              username: author.username,
+              firstName: author.firstName,
+              lastName: author.lastName,
+              profileImageUrl: author.profileImageUrl,
+            }
+          : null,
+        replyCount: 0,
+        replies: [],
+      },
+    }, mutedBy);
+  } catch (error) {
+    console.error('Error publishing comment:', error);
+  }
+}
+
+// Browsers can't set headers on a WebSocket handshake, so the JWT comes in the
+// query string: /ws?token=...
+export function setupRealtime(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', async (req, socket, head) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    // Other upgrades on this server (e.g. Vite's HMR socket) aren't ours
+    if (url.pathname !== '/ws') return;
+
+    // Node stops watching the raw socket for errors once a request is upgraded,
+    // so a client resetting the connection while we look them up would
+    // otherwise crash the process. ws takes over in handleUpgrade.
+    const onSocketError = (error: Error) => {
+      console.error('WebSocket handshake error:', error);
+      socket.destroy();
+    };
+    socket.on('error', onSocketError);
+
+    const decoded = verifyToken(url.searchParams.get('token') || '');
+    const user = decoded ? await storage.getUserById(decoded.userId).catch(() => undefined) : undefined;
+    if (socket.destroyed) return;
+    if (!user || !user.isActive || user.isBanned) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      const subscriptions = new Set<number>();
+      addTo(socketsByUser, user.id, ws);
+      userBySocket.set(ws, user.id);
+
+      ws.on('message', data => {
+        let message: ClientMessage;
+        try {
+          message = JSON.parse(data.toString());
+        } catch {
+          return;
+        }
+        if (typeof message.fanworkId !== 'number') return;
+
+        if (message.type === 'subscribe') {
+          const fanworkId = message.fanworkId;
+          // Only works the reader could open over HTTP, so drafts stay private
+          // and age-gated works need a verified reader
+          storage.getFanwork(fanworkId)
+            .then(async fanwork =>
+              !!fanwork &&
+              (!AGE_GATED_RATINGS.includes(fanwork.rating) || user.ageVerified) &&
+              await storage.canViewFanwork(user.id, fanwork))
+            .then(allowed => {
+              if (!allowed || ws.readyState !== WebSocket.OPEN) return;
+              subscriptions.add(fanworkId);
+              addTo(socketsByFanwork, fanworkId, ws);
+            })
+            .catch(error => console.error('Error subscribing to fanwork:', error));
+        } else if (message.type === 'unsubscribe') {
+          subscriptions.delete(message.fanworkId);
+          removeFrom(socketsByFanwork, message.fanworkId, ws);
+        }
+      });
+
+      const cleanUp = () => {
+        removeFrom(socketsByUser, user.id, ws);
+        subscriptions.forEach(fanworkId => removeFrom(socketsByFanwork, fanworkId, ws));
+        subscriptions.clear();
+      };
+
+      ws.on('close', cleanUp);
+
+      // A malformed frame surfaces here; left unhandled it would take the process down
+      ws.on('error', error => {
+        console.error('WebSocket error:', error);
+        cleanUp();
+        ws.terminate();
+      });
+    });
+    socket.removeListener('error', onSocketError);
+  });
+}
@@ -1,10 +1,25 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import express from "express";
-import { storage } from "./storage";
+import { storage, fanworkSortOptions, InvalidCursorError, COMMENT_MAX_DEPTH, chapterText, type FanworkFilters, type FanworkSort } from "./storage";
 import { Request, Response } from "express";
-import { authenticateToken, optionalAuth, requireModerator, requireAdmin, AuthRequest, hashPassword, comparePassword, generateToken } from "./auth";
-import { insertFanworkSchema, insertCommentSchema, insertReportSchema } from "@shared/schema";
+import {
+  notifyCommentCreated,
+  notifyCommentApproved,
+  notifyFanworkLiked,
+  notifyFanworkBookmarked,
+  notifyReportResolved,
+  notifyCreatorInvited,
+  notifyCreatorAccepted,
+  notifyGifted,
+  notifyFanworkPublished,
+} from "./notifications";
+import { setupRealtime, publishComment } from "./realtime";
+import { authenticateToken, optionalAuth, requireModerator, requireAdmin, AuthRequest, hashPassword, comparePassword, generateToken, AGE_GATED_RATINGS, canViewRating, sendAgeGateRequired, signUploadUrl, hasValidUploadSignature } from "./auth";
+import { insertFanworkSchema, insertChapterSchema, insertSeriesSchema, insertCommentSchema, insertReportSchema, insertPseudSchema, updateProfileSchema, updateContentFiltersSchema, emptyContentFilters, type ContentFilters, type Fanwork, type FanworkStatus } from "@shared/schema";
+import { renderMarkdown } from "./markdown";
+import { diffText, diffModes } from "./diff";
+import { processImageUpload, InvalidImageError, AVATAR_SIZE, BANNER_SIZE, type CropRegion } from "./images";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
@@ -24,6 +39,192 @@ const loginSchema = z.object({
   password: z.string(),
 });
 
+// Tags may be repeated (?tags=a&tags=b) or comma-separated (?tags=a,b)
+function parseTagList(value: unknown): string[] | undefined {
+  if (!value) return undefined;
+  const values = Array.isArray(value) ? value : [value];
+  const names = values
+    .flatMap(entry => String(entry).split(','))
+    .map(name => name.trim())
+    .filter(Boolean);
+  return names.length > 0 ? names : undefined;
+}
+
+const updatePseudSchema = insertPseudSchema.partial().extend({
+  // Only ever set to true; the previous default is cleared automatically
+  isDefault: z.literal(true).optional(),
+});
+
+// Works may only be credited to one of the author's own pseuds
+async function isOwnPseud(userId: number, pseudId: number | undefined): Promise<boolean> {
+  if (pseudId === undefined) return true;
+  const pseud = await storage.getPseud(pseudId);
+  return pseud?.userId === userId;
+}
+
+// Scheduled works need a publish time that hasn't passed yet
+function isValidSchedule(status: string | undefined, publishAt: Date | null | undefined): boolean {
+  return status !== 'scheduled' || (!!publishAt && publishAt.getTime() > Date.now());
+}
+
+// Gift recipients are given as usernames, repeated or comma-separated like tags.
+// Anyone who has blocked the giver is refused, unless they already had the gift.
+async function resolveGiftRecipients(value: unknown, giverId: number, alreadyGifted: number[] = []) {
+  const usernames = parseTagList(value) ?? [];
+  const found = await Promise.all(usernames.map(username => storage.getUserByUsername(username)));
+  const unknown = usernames.filter((_, index) => !found[index]);
+  const blockedBy = await Promise.all(found.map(user =>
+    user && !alreadyGifted.includes(user.id) ? storage.isBlocked(user.id, giverId) : false,
+  ));
+  const blocked = usernames.filter((_, index) => blockedBy[index]);
+  const recipientIds = Array.from(new Set(
+    found.flatMap(user => (user && user.id !== giverId ? [user.id] : [])),
+  ));
+  return { recipientIds, unknown, blocked };
+}
+
+// The viewer's saved content filters, unless they've asked to see filtered works
+// too. Muted users' works, and age-gated ratings for anyone who hasn't verified
+// their age, stay hidden either way.
+async function viewerContentFilters(req: AuthRequest): Promise<ContentFilters> {
+  const gatedRatings = req.user?.ageVerified ? [] : AGE_GATED_RATINGS;
+  if (!req.user) {
+    return { ...emptyContentFilters, excludeRatings: gatedRatings };
+  }
+
+  const [user, muted] = await Promise.all([
+    storage.getUserById(req.user.id),
+    storage.getMutedUsers(req.user.id),
+  ]);
+  const filters = req.query.showFiltered === 'true' || !user ? emptyContentFilters : user.contentFilters;
+  return {
+    ...filters,
+    excludeRatings: Array.from(new Set([...filters.excludeRatings, ...gatedRatings])),
+    excludeAuthors: Array.from(new Set([...filters.excludeAuthors, ...muted.map(entry => entry.id)])),
+  };
+}
+
+// Fanworks as sent to the client, with links to age-gated uploads signed. Callers
+// only pass works the viewer is allowed to see.
+async function presentFanworks<T extends Fanwork>(items: T[], viewerId?: number) {
+  const enriched = await storage.enrichFanworks(items, viewerId);
+  return enriched.map(fanwork =>
+    fanwork.contentUrl?.startsWith('/uploads/') && AGE_GATED_RATINGS.includes(fanwork.rating)
+      ? { ...fanwork, contentUrl: signUploadUrl(fanwork.contentUrl) }
+      : fanwork,
+  );
+}
+
+// Content filters as their owner edits them, with excluded authors named by username
+async function describeContentFilters(filters: ContentFilters) {
+  const authors = await storage.getUserSummaries(filters.excludeAuthors);
+  return {
+    ...filters,
+    excludeAuthors: authors.map(author => author.username),
+  };
+}
+
+const inviteCreatorSchema = z.object({
+  username: z.string().trim().min(1),
+});
+
+const acceptCreatorSchema = z.object({
+  pseudId: z.number().int().positive().optional(),
+});
+
+// Creators see a work's history so they can restore it, moderators so they can review reported edits
+async function canViewRevisions(userId: number, fanwork: Fanwork): Promise<boolean> {
+  if (await storage.canEditFanwork(userId, fanwork)) return true;
+  const user = await storage.getUserById(userId);
+  return user?.role === 'moderator' || user?.role === 'admin';
+}
+
+// A revision id, or "current" for the work as it is now
+const revisionRefSchema = z.union([z.literal('current'), z.coerce.number().int().positive()]);
+
+const revisionDiffSchema = z.object({
+  from: revisionRefSchema,
+  to: revisionRefSchema.default('current'),
+  mode: z.enum(diffModes).default('line'),
+});
+
+const updateCommentSchema = insertCommentSchema.pick({ content: true });
+
+const updateFanworkSchema = insertFanworkSchema
+  .omit({ authorId: true, type: true })
+  .partial();
+
+// Uploaded files live under /uploads; anything else (e.g. AO3 links) isn't ours to remove
+function removeUploadedFile(contentUrl: string | null) {
+  if (!contentUrl?.startsWith('/uploads/')) return;
+  const filePath = path.join(process.cwd(), 'uploads', path.basename(contentUrl));
+  fs.unlink(filePath, (error) => {
+    if (error && error.code !== 'ENOENT') {
+      console.error('Error removing uploaded file:', error);
+    }
+  });
+}
+
+const cropRegionSchema = z.object({
+  left: z.number().int().min(0),
+  top: z.number().int().min(0),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+// Profile updates arrive as multipart form data when images are attached, so
+// structured fields come in as JSON strings and cleared text fields as ''.
+function parseProfileForm(body: Record<string, unknown>) {
+  const fromJson = (value: unknown) => (typeof value === 'string' ? JSON.parse(value) : value);
+  const orNull = (value: unknown) => (value === '' ? null : value);
+
+  const profile = updateProfileSchema.parse({
+    firstName: orNull(body.firstName),
+    lastName: orNull(body.lastName),
+    bio: orNull(body.bio),
+    pronouns: orNull(body.pronouns),
+    links: body.links === undefined ? undefined : fromJson(body.links),
+  });
+  const avatarCrop: CropRegion | undefined = body.avatarCrop
+    ? cropRegionSchema.parse(fromJson(body.avatarCrop))
+    : undefined;
+  const bannerCrop: CropRegion | undefined = body.bannerCrop
+    ? cropRegionSchema.parse(fromJson(body.bannerCrop))
+    : undefined;
+
+  return {
+    profile,
+    avatarCrop,
+    bannerCrop,
+    removeAvatar: body.removeAvatar === true || body.removeAvatar === 'true',
+    removeBanner: body.removeBanner === true || body.removeBanner === 'true',
+  };
+}
+
+const expectedChaptersSchema = z.number().int().positive().nullable().optional();
+
+const createChapterSchema = insertChapterSchema.extend({
+  expectedChapters: expectedChaptersSchema,
+});
+
+const updateChapterSchema = insertChapterSchema
+  .omit({ fanworkId: true })
+  .partial()
+  .extend({
+    position: z.number().int().min(1).optional(),
+    expectedChapters: expectedChaptersSchema,
+  });
+
+const updateSeriesSchema = insertSeriesSchema.omit({ authorId: true }).partial();
+
+const seriesWorkSchema = z.object({
+  fanworkId: z.number().int(),
+});
+
+const reorderSeriesSchema = z.object({
+  fanworkIds: z.array(z.number().int()),
+});
+
 const ao3ImportSchema = z.object({
   ao3Url: z.string().url(),
   title: z.string().optional(),
@@ -62,253 +263,1667 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Authentication routes
-  app.post('/api/auth/register', async (req, res) => {
+  // A work's file is written before the route runs its checks, so any request
+  // that ends in an error takes its upload with it rather than orphaning it
+  const contentUpload = [
+    upload.single('file'),
+    (req: Request, res: Response, next: () => void) => {
+      res.on('finish', () => {
+        if (req.file && res.statusCode >= 400) {
+          removeUploadedFile(`/uploads/${req.file.filename}`);
+        }
+      });
+      next();
+    },
+  ];
+
+  // Authentication routes
+  app.post('/api/auth/register', async (req, res) => {
+    try {
+      const validatedData = registerSchema.parse(req.body);
+      
+      // Check if user already exists
+      const existingUserByEmail = await storage.getUserByEmail(validatedData.email);
+      if (existingUserByEmail) {
+        return res.status(400).json({ message: 'Email already registered' });
+      }
+
+      const existingUserByUsername = await storage.getUserByUsername(validatedData.username);
+      if (existingUserByUsername) {
+        return res.status(400).json({ message: 'Username already taken' });
+      }
+
+      // Hash password and create user
+      const passwordHash = await hashPassword(validatedData.password);
+      const user = await storage.createUser({
+        email: validatedData.email,
+        username: validatedData.username,
+        passwordHash,
+        firstName: validatedData.firstName,
+        lastName: validatedData.lastName,
+        isActive: true
+      });
+
+      const token = generateToken(user.id);
+      res.json({ 
+        user: { id: user.id, email: user.email, username: user.username }, 
+        token 
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Registration error:', error);
+      res.status(500).json({ message: 'Registration failed' });
+    }
+  });
+
+  app.post('/api/auth/login', async (req, res) => {
+    try {
+      const validatedData = loginSchema.parse(req.body);
+
+      const user = await storage.getUserByEmail(validatedData.email);
+      if (!user || !user.isActive) {
+        return res.status(401).json({ message: 'Invalid credentials' });
+      }
+
+      const isValidPassword = await comparePassword(validatedData.password, user.passwordHash);
+      if (!isValidPassword) {
+        return res.status(401).json({ message: 'Invalid credentials' });
+      }
+
+      const token = generateToken(user.id);
+      res.json({ 
+        user: { id: user.id, email: user.email, username: user.username }, 
+        token 
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Login error:', error);
+      res.status(500).json({ message: 'Login failed' });
+    }
+  });
+
+  app.get('/api/auth/user', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUserById(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      res.json({
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        profileImageUrl: user.profileImageUrl,
+        ageVerified: user.ageVerified,
+      });
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+  // Fanwork routes
+  app.get('/api/fanworks', optionalAuth as any, async (req: AuthRequest, res) => {
+    try {
+      const filters: FanworkFilters = {
+        type: req.query.type ? (Array.isArray(req.query.type) ? req.query.type as string[] : [req.query.type as string]) : undefined,
+        rating: req.query.rating ? (Array.isArray(req.query.rating) ? req.query.rating as string[] : [req.query.rating as string]) : undefined,
+        excludeWarnings: parseTagList(req.query.excludeWarnings),
+        categories: parseTagList(req.query.categories),
+        tags: parseTagList(req.query.tags),
+        tagMode: req.query.tagMode === 'any' ? 'any' : 'all',
+        excludeTags: parseTagList(req.query.excludeTags),
+        search: req.query.search as string,
+        authorId: req.query.authorId as string,
+        pseudId: req.query.pseudId ? parseInt(req.query.pseudId as string) || undefined : undefined,
+        viewerId: req.user?.id,
+        contentFilters: await viewerContentFilters(req),
+        sortBy: fanworkSortOptions.includes(req.query.sortBy as FanworkSort)
+          ? req.query.sortBy as FanworkSort
+          : (req.query.search ? 'relevance' : 'latest'),
+        limit: req.query.limit ? Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100) : 20,
+        cursor: req.query.cursor as string | undefined,
+        includeTotal: req.query.includeTotal === 'true',
+      };
+
+      const page = await storage.getFanworks(filters);
+      res.json({
+        ...page,
+        items: await presentFanworks(page.items, req.user?.id),
+      });
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error fetching fanworks:', error);
+      res.status(500).json({ message: 'Failed to fetch fanworks' });
+    }
+  });
+
+  app.get('/api/fanworks/:id', optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const fanwork = await storage.getFanwork(id);
+      
+      if (!fanwork || !(await storage.canViewFanwork(req.user?.id, fanwork))) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+      if (!canViewRating(req, fanwork.rating)) {
+        return sendAgeGateRequired(res);
+      }
+
+      const [enriched] = await presentFanworks([fanwork], req.user?.id);
+      res.json(enriched);
+    } catch (error) {
+      console.error('Error fetching fanwork:', error);
+      res.status(500).json({ message: 'Failed to fetch fanwork' });
+    }
+  });
+
+  app.post('/api/fanworks', authenticateToken, ...contentUpload, async (req: AuthRequest, res) => {
+    try {
+      // Multipart bodies arrive as strings
+      let expectedChapters = req.body.expectedChapters ? parseInt(req.body.expectedChapters) : undefined;
+      if (!expectedChapters && (req.body.isComplete === true || req.body.isComplete === 'true')) {
+        // Marking a new work complete without a total means it's a finished oneshot
+        expectedChapters = 1;
+      }
+
+      const fanworkData = insertFanworkSchema.parse({
+        ...req.body,
+        expectedChapters,
+        authorId: req.user!.id,
+        contentUrl: req.file ? `/uploads/${req.file.filename}` : undefined,
+      });
+      // Creators are held to the same age gate as readers, so only verified
+      // adults can post mature or explicit work
+      if (!canViewRating(req, fanworkData.rating)) {
+        return sendAgeGateRequired(res);
+      }
+      if (!(await isOwnPseud(req.user!.id, fanworkData.pseudId))) {
+        return res.status(400).json({ message: 'Invalid pseud' });
+      }
+      if (!isValidSchedule(fanworkData.status, fanworkData.publishAt)) {
+        return res.status(400).json({ message: 'Scheduled works need a publish time in the future' });
+      }
+      const gifts = await resolveGiftRecipients(req.body.giftRecipients, req.user!.id);
+      if (gifts.unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown gift recipient: ${gifts.unknown.join(', ')}` });
+      }
+      if (gifts.blocked.length > 0) {
+        return res.status(403).json({ message: `You cannot gift works to ${gifts.blocked.join(', ')}` });
+      }
+
+      const fanwork = await storage.createFanwork(fanworkData);
+      
+      // Add tags if provided
+      const tags = parseTagList(req.body.tags);
+      if (tags) {
+        await storage.addTagsToFanwork(fanwork.id, tags);
+      }
+
+      const gifted = await storage.setFanworkGifts(fanwork.id, gifts.recipientIds);
+      await notifyGifted(fanwork, gifted, req.user!.id);
+
+      const [enriched] = await presentFanworks([fanwork], req.user!.id);
+      res.status(201).json(enriched);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error creating fanwork:', error);
+      res.status(500).json({ message: 'Failed to create fanwork' });
+    }
+  });
+
+  app.patch('/api/fanworks/:id', authenticateToken, ...contentUpload, async (req: AuthRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const fanwork = await storage.getFanwork(id);
+
+      if (!fanwork) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+      if (!(await storage.canEditFanwork(req.user!.id, fanwork))) {
+        return res.status(403).json({ message: 'Only the creators can edit this fanwork' });
+      }
+
+      // Multipart bodies arrive as strings; a blank total clears it
+      let expectedChapters: number | null | undefined;
+      if (req.body.expectedChapters !== undefined) {
+        expectedChapters = req.body.expectedChapters === '' || req.body.expectedChapters === null
+          ? null
+          : parseInt(req.body.expectedChapters);
+      }
+      if (!expectedChapters && (req.body.isComplete === true || req.body.isComplete === 'true')) {
+        // Marking a work complete without a total locks in the chapters it has now
+        expectedChapters = Math.max(fanwork.chapterCount, 1);
+      }
+
+      const { status = fanwork.status, publishAt = fanwork.publishAt, ...fanworkData } = updateFanworkSchema.parse({
+        ...req.body,
+        expectedChapters,
+        contentUrl: req.file ? `/uploads/${req.file.filename}` : undefined,
+      });
+      if (!canViewRating(req, fanworkData.rating ?? fanwork.rating)) {
+        return sendAgeGateRequired(res);
+      }
+      // The work stays credited to one of its owner's pseuds, whoever edits it
+      if (!(await isOwnPseud(fanwork.authorId, fanworkData.pseudId))) {
+        return res.status(400).json({ message: 'Invalid pseud' });
+      }
+      // Until a work goes live it can move freely between draft and scheduled
+      if (fanwork.status === 'published' && status !== 'published') {
+        return res.status(400).json({ message: 'Published works cannot be unpublished' });
+      }
+      if (!isValidSchedule(status, publishAt)) {
+        return res.status(400).json({ message: 'Scheduled works need a publish time in the future' });
+      }
+      const gifts = req.body.giftRecipients !== undefined
+        ? await resolveGiftRecipients(
+            req.body.giftRecipients,
+            fanwork.authorId,
+            await storage.getFanworkGiftRecipients(fanwork.id),
+          )
+        : undefined;
+      if (gifts && gifts.unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown gift recipient: ${gifts.unknown.join(', ')}` });
+      }
+      if (gifts && gifts.blocked.length > 0) {
+        return res.status(403).json({ message: `You cannot gift works to ${gifts.blocked.join(', ')}` });
+      }
+
+      await storage.updateFanwork(id, status === 'published' ? fanworkData : {
+        ...fanworkData,
+        status: status as FanworkStatus,
+        publishAt: status === 'scheduled' ? publishAt : null,
+      }, req.user!.id);
+
+      // Tags are replaced wholesale; an empty value clears them
+      if (req.body.tags !== undefined) {
+        await storage.setFanworkTags(id, parseTagList(req.body.tags) ?? []);
+      }
+
+      // Likewise gift recipients; only newly added ones are notified
+      if (gifts) {
+        const gifted = await storage.setFanworkGifts(id, gifts.recipientIds);
+        await notifyGifted(fanwork, gifted, req.user!.id);
+      }
+
+      // Publishing a draft or scheduled work now; every recipient hears about the gift at this point
+      const published = status === 'published' ? await storage.publishFanwork(id) : undefined;
+      if (published) {
+        await notifyFanworkPublished(published);
+      }
+
+      if (req.file) {
+        removeUploadedFile(fanwork.contentUrl);
+      }
+
+      const updated = await storage.getFanwork(id);
+      const [enriched] = await presentFanworks([updated!], req.user!.id);
+      res.json(enriched);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error updating fanwork:', error);
+      res.status(500).json({ message: 'Failed to update fanwork' });
+    }
+  });
+
+  app.delete('/api/fanworks/:id', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const fanwork = await storage.getFanwork(id);
+
+      if (!fanwork) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+      if (fanwork.authorId !== req.user!.id) {
+        return res.status(403).json({ message: 'Only the author can delete this fanwork' });
+      }
+
+      await storage.deleteFanwork(id);
+      removeUploadedFile(fanwork.contentUrl);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting fanwork:', error);
+      res.status(500).json({ message: 'Failed to delete fanwork' });
+    }
+  });
+
+  // Co-creators
+  app.get('/api/fanworks/:id/creators', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const fanwork = await storage.getFanwork(parseInt(req.params.id));
+      if (!fanwork) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+      if (!(await storage.canEditFanwork(req.user!.id, fanwork))) {
+        return res.status(403).json({ message: 'Only the creators can manage co-creators' });
+      }
+
+      const creators = await storage.getFanworkCreators(fanwork.id);
+      res.json(creators);
+    } catch (error) {
+      console.error('Error fetching co-creators:', error);
+      res.status(500).json({ message: 'Failed to fetch co-creators' });
+    }
+  });
+
+  app.post('/api/fanworks/:id/creators', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const fanwork = await storage.getFanwork(parseInt(req.params.id));
+      if (!fanwork) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+      if (!(await storage.canEditFanwork(req.user!.id, fanwork))) {
+        return res.status(403).json({ message: 'Only the creators can invite co-creators' });
+      }
+
+      const { username } = inviteCreatorSchema.parse(req.body);
+      const invitee = await storage.getUserByUsername(username);
+      if (!invitee) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      if (invitee.id === fanwork.authorId || await storage.getFanworkCreator(fanwork.id, invitee.id)) {
+        return res.status(409).json({ message: 'That user is already a creator or has been invited' });
+      }
+      if (await storage.isBlocked(invitee.id, req.user!.id) || await storage.isBlocked(req.user!.id, invitee.id)) {
+        return res.status(403).json({ message: 'You cannot invite this user' });
+      }
+
+      const creator = await storage.inviteCreator(fanwork.id, invitee.id, req.user!.id);
+      await notifyCreatorInvited(fanwork, invitee.id, req.user!.id);
+      res.status(201).json(creator);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error inviting co-creator:', error);
+      res.status(500).json({ message: 'Failed to invite co-creator' });
+    }
+  });
+
+  app.post('/api/fanworks/:id/creators/accept', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const fanwork = await storage.getFanwork(parseInt(req.params.id));
+      const invitation = fanwork ? await storage.getFanworkCreator(fanwork.id, req.user!.id) : undefined;
+      if (!fanwork || invitation?.status !== 'pending') {
+        return res.status(404).json({ message: 'Invitation not found' });
+      }
+
+      const { pseudId } = acceptCreatorSchema.parse(req.body);
+      if (!(await isOwnPseud(req.user!.id, pseudId))) {
+        return res.status(400).json({ message: 'Invalid pseud' });
+      }
+
+      const creator = await storage.acceptCreatorInvite(
+        fanwork.id,
+        req.user!.id,
+        pseudId ?? (await storage.getDefaultPseud(req.user!.id)).id,
+      );
+      await notifyCreatorAccepted(fanwork, req.user!.id);
+      res.json(creator);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error accepting co-creator invitation:', error);
+      res.status(500).json({ message: 'Failed to accept invitation' });
+    }
+  });
+
+  // Creators can remove co-creators; invitees decline, and co-creators leave, by removing themselves
+  app.delete('/api/fanworks/:id/creators/:userId', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const fanwork = await storage.getFanwork(parseInt(req.params.id));
+      if (!fanwork) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+
+      const userId = parseInt(req.params.userId);
+      if (userId !== req.user!.id && !(await storage.canEditFanwork(req.user!.id, fanwork))) {
+        return res.status(403).json({ message: 'Only the creators can remove co-creators' });
+      }
+
+      await storage.removeCreator(fanwork.id, userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error removing co-creator:', error);
+      res.status(500).json({ message: 'Failed to remove co-creator' });
+    }
+  });
+
+  // Revisions
+  app.get('/api/fanworks/:id/revisions', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const fanwork = await storage.getFanwork(parseInt(req.params.id));
+      if (!fanwork) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+      if (!(await canViewRevisions(req.user!.id, fanwork))) {
+        return res.status(403).json({ message: 'Only the creators or a moderator can view revisions' });
+      }
+
+      const revisions = await storage.getFanworkRevisions(fanwork.id);
+      res.json({
+        current: { title: fanwork.title, updatedAt: fanwork.updatedAt, wordCount: fanwork.wordCount },
+        revisions,
+      });
+    } catch (error) {
+      console.error('Error fetching fanwork revisions:', error);
+      res.status(500).json({ message: 'Failed to fetch revisions' });
+    }
+  });
+
+  app.get('/api/fanworks/:id/revisions/diff', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const fanwork = await storage.getFanwork(parseInt(req.params.id));
+      if (!fanwork) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+      if (!(await canViewRevisions(req.user!.id, fanwork))) {
+        return res.status(403).json({ message: 'Only the creators or a moderator can view revisions' });
+      }
+
+      const { from, to, mode } = revisionDiffSchema.parse(req.query);
+      const loadVersion = async (ref: number | 'current') => {
+        if (ref === 'current') {
+          const { title, description, updatedAt } = fanwork;
+          const parts = await storage.getChapters(fanwork.id);
+          const textContent = parts.length ? chapterText(parts) : fanwork.textContent;
+          return { id: ref, title, description, textContent, createdAt: updatedAt };
+        }
+        const revision = await storage.getFanworkRevision(ref);
+        return revision?.fanworkId === fanwork.id ? revision : undefined;
+      };
+
+      const [before, after] = await Promise.all([loadVersion(from), loadVersion(to)]);
+      if (!before || !after) {
+        return res.status(404).json({ message: 'Revision not found' });
+      }
+
+      res.json({
+        mode,
+        from: { id: before.id, title: before.title, createdAt: before.createdAt },
+        to: { id: after.id, title: after.title, createdAt: after.createdAt },
+        changes: {
+          title: diffText(before.title, after.title, 'word'),
+          description: diffText(before.description, after.description, mode),
+          textContent: diffText(before.textContent, after.textContent, mode),
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error diffing fanwork revisions:', error);
+      res.status(500).json({ message: 'Failed to compare revisions' });
+    }
+  });
+
+  app.post('/api/fanworks/:id/revisions/:revisionId/restore', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const fanwork = await storage.getFanwork(parseInt(req.params.id));
+      if (!fanwork) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+      if (!(await storage.canEditFanwork(req.user!.id, fanwork))) {
+        return res.status(403).json({ message: 'Only the creators can restore a revision' });
+      }
+      if (!canViewRating(req, fanwork.rating)) {
+        return sendAgeGateRequired(res);
+      }
+
+      const revision = await storage.getFanworkRevision(parseInt(req.params.revisionId));
+      if (revision?.fanworkId !== fanwork.id) {
+        return res.status(404).json({ message: 'Revision not found' });
+      }
+
+      const restored = await storage.restoreFanworkRevision(fanwork, revision, req.user!.id);
+
+      const [enriched] = await presentFanworks([restored], req.user!.id);
+      res.json(enriched);
+    } catch (error) {
+      console.error('Error restoring fanwork revision:', error);
+      res.status(500).json({ message: 'Failed to restore revision' });
+    }
+  });
+
+  // Chapters
+  app.get('/api/fanworks/:id/chapters', optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const fanworkId = parseInt(req.params.id);
+      const fanwork = await storage.getFanwork(fanworkId);
+      if (!fanwork || !(await storage.canViewFanwork(req.user?.id, fanwork))) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+      if (!canViewRating(req, fanwork.rating)) {
+        return sendAgeGateRequired(res);
+      }
+
+      const chapters = await storage.getChapters(fanworkId);
+      res.json(chapters);
+    } catch (error) {
+      console.error('Error fetching chapters:', error);
+      res.status(500).json({ message: 'Failed to fetch chapters' });
+    }
+  });
+
+  app.post('/api/fanworks/:id/chapters', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const fanworkId = parseInt(req.params.id);
+      const fanwork = await storage.getFanwork(fanworkId);
+
+      if (!fanwork) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+      if (!(await storage.canEditFanwork(req.user!.id, fanwork))) {
+        return res.status(403).json({ message: 'Only the creators can add chapters' });
+      }
+      if (!canViewRating(req, fanwork.rating)) {
+        return sendAgeGateRequired(res);
+      }
+      if (fanwork.type !== 'fanfiction') {
+        return res.status(400).json({ message: 'Only fanfiction can have chapters' });
+      }
+
+      const { expectedChapters, ...chapterData } = createChapterSchema.parse({
+        ...req.body,
+        fanworkId,
+      });
+
+      if (expectedChapters !== undefined) {
+        await storage.updateFanwork(fanworkId, { expectedChapters });
+      }
+
+      const chapter = await storage.createChapter(chapterData);
+      res.status(201).json(chapter);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error creating chapter:', error);
+      res.status(500).json({ message: 'Failed to create chapter' });
+    }
+  });
+
+  app.patch('/api/fanworks/:id/chapters/:chapterId', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const fanworkId = parseInt(req.params.id);
+      const chapterId = parseInt(req.params.chapterId);
+      const fanwork = await storage.getFanwork(fanworkId);
+      const chapter = await storage.getChapter(chapterId);
+
+      if (!fanwork || !chapter || chapter.fanworkId !== fanworkId) {
+        return res.status(404).json({ message: 'Chapter not found' });
+      }
+      if (!(await storage.canEditFanwork(req.user!.id, fanwork))) {
+        return res.status(403).json({ message: 'Only the creators can edit chapters' });
+      }
+      if (!canViewRating(req, fanwork.rating)) {
+        return sendAgeGateRequired(res);
+      }
+
+      const { expectedChapters, ...chapterData } = updateChapterSchema.parse(req.body);
+
+      if (expectedChapters !== undefined) {
+        await storage.updateFanwork(fanworkId, { expectedChapters });
+      }
+
+      const updated = await storage.updateChapter(chapterId, chapterData, req.user!.id);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error updating chapter:', error);
+      res.status(500).json({ message: 'Failed to update chapter' });
+    }
+  });
+
+  app.delete('/api/fanworks/:id/chapters/:chapterId', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const fanworkId = parseInt(req.params.id);
+      const chapterId = parseInt(req.params.chapterId);
+      const fanwork = await storage.getFanwork(fanworkId);
+      const chapter = await storage.getChapter(chapterId);
+
+      if (!fanwork || !chapter || chapter.fanworkId !== fanworkId) {
+        return res.status(404).json({ message: 'Chapter not found' });
+      }
+      if (!(await storage.canEditFanwork(req.user!.id, fanwork))) {
+        return res.status(403).json({ message: 'Only the creators can delete chapters' });
+      }
+      if (!canViewRating(req, fanwork.rating)) {
+        return sendAgeGateRequired(res);
+      }
+
+      await storage.deleteChapter(chapterId, req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting chapter:', error);
+      res.status(500).json({ message: 'Failed to delete chapter' });
+    }
+  });
+
+  app.get('/api/fanworks/:id/series', optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const fanworkId = parseInt(req.params.id);
+      const fanwork = await storage.getFanwork(fanworkId);
+
+      if (!fanwork || !(await storage.canViewFanwork(req.user?.id, fanwork))) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+      if (!canViewRating(req, fanwork.rating)) {
+        return sendAgeGateRequired(res);
+      }
+
+      const navigation = await storage.getSeriesNavigation(fanworkId, {
+        viewerId: req.user?.id,
+        contentFilters: await viewerContentFilters(req),
+      });
+      res.json(navigation);
+    } catch (error) {
+      console.error('Error fetching series navigation:', error);
+      res.status(500).json({ message: 'Failed to fetch series navigation' });
+    }
+  });
+
+  // Series
+  app.get('/api/series', optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const series = await storage.getAllSeries({
+        authorId: req.query.authorId ? parseInt(req.query.authorId as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
+        contentFilters: await viewerContentFilters(req),
+      });
+      res.json(series);
+    } catch (error) {
+      console.error('Error fetching series:', error);
+      res.status(500).json({ message: 'Failed to fetch series' });
+    }
+  });
+
+  app.get('/api/series/:id', optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const seriesId = parseInt(req.params.id);
+      const series = await storage.getSeries(seriesId);
+
+      if (!series) {
+        return res.status(404).json({ message: 'Series not found' });
+      }
+
+      const [works, isSubscribed] = await Promise.all([
+        // Only the series owner sees parts that aren't published yet
+        storage.getSeriesWorks(seriesId, {
+          publishedOnly: series.authorId !== req.user?.id,
+          contentFilters: await viewerContentFilters(req),
+        }),
+        req.user ? storage.isSubscribedToSeries(req.user.id, seriesId) : Promise.resolve(false),
+      ]);
+      res.json({
+        ...series,
+        works: await presentFanworks(works, req.user?.id),
+        isSubscribed,
+      });
+    } catch (error) {
+      console.error('Error fetching series:', error);
+      res.status(500).json({ message: 'Failed to fetch series' });
+    }
+  });
+
+  app.post('/api/series', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const seriesData = insertSeriesSchema.parse({
+        ...req.body,
+        authorId: req.user!.id,
+      });
+
+      const series = await storage.createSeries(seriesData);
+      res.status(201).json(series);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error creating series:', error);
+      res.status(500).json({ message: 'Failed to create series' });
+    }
+  });
+
+  app.patch('/api/series/:id', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const seriesId = parseInt(req.params.id);
+      const series = await storage.getSeries(seriesId);
+
+      if (!series) {
+        return res.status(404).json({ message: 'Series not found' });
+      }
+      if (series.authorId !== req.user!.id) {
+        return res.status(403).json({ message: 'Only the author can edit this series' });
+      }
+
+      const seriesData = updateSeriesSchema.parse(req.body);
+      const updated = await storage.updateSeries(seriesId, seriesData);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error updating series:', error);
+      res.status(500).json({ message: 'Failed to update series' });
+    }
+  });
+
+  app.delete('/api/series/:id', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const seriesId = parseInt(req.params.id);
+      const series = await storage.getSeries(seriesId);
+
+      if (!series) {
+        return res.status(404).json({ message: 'Series not found' });
+      }
+      if (series.authorId !== req.user!.id) {
+        return res.status(403).json({ message: 'Only the author can delete this series' });
+      }
+
+      await storage.deleteSeries(seriesId);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting series:', error);
+      res.status(500).json({ message: 'Failed to delete series' });
+    }
+  });
+
+  app.post('/api/series/:id/works', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const seriesId = parseInt(req.params.id);
+      const { fanworkId } = seriesWorkSchema.parse(req.body);
+      const series = await storage.getSeries(seriesId);
+      const fanwork = await storage.getFanwork(fanworkId);
+
+      if (!series) {
+        return res.status(404).json({ message: 'Series not found' });
+      }
+      if (!fanwork) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+      // Co-creators of a work may file it in their own series too
+      if (series.authorId !== req.user!.id || !(await storage.canEditFanwork(req.user!.id, fanwork))) {
+        return res.status(403).json({ message: 'You can only add your own works to your own series' });
+      }
+
+      await storage.addFanworkToSeries(seriesId, fanworkId);
+      const works = await storage.getSeriesWorks(seriesId);
+      res.status(201).json({ ...series, works: await presentFanworks(works, req.user!.id) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error adding work to series:', error);
+      res.status(500).json({ message: 'Failed to add work to series' });
+    }
+  });
+
+  app.put('/api/series/:id/works', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const seriesId = parseInt(req.params.id);
+      const { fanworkIds } = reorderSeriesSchema.parse(req.body);
+      const series = await storage.getSeries(seriesId);
+
+      if (!series) {
+        return res.status(404).json({ message: 'Series not found' });
+      }
+      if (series.authorId !== req.user!.id) {
+        return res.status(403).json({ message: 'Only the author can reorder this series' });
+      }
+
+      await storage.reorderSeriesWorks(seriesId, fanworkIds);
+      const works = await storage.getSeriesWorks(seriesId);
+      res.json({ ...series, works: await presentFanworks(works, req.user!.id) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error reordering series:', error);
+      res.status(500).json({ message: 'Failed to reorder series' });
+    }
+  });
+
+  app.delete('/api/series/:id/works/:fanworkId', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const seriesId = parseInt(req.params.id);
+      const fanworkId = parseInt(req.params.fanworkId);
+      const series = await storage.getSeries(seriesId);
+
+      if (!series) {
+        return res.status(404).json({ message: 'Series not found' });
+      }
+      if (series.authorId !== req.user!.id) {
+        return res.status(403).json({ message: 'Only the author can remove works from this series' });
+      }
+
+      await storage.removeFanworkFromSeries(seriesId, fanworkId);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error removing work from series:', error);
+      res.status(500).json({ message: 'Failed to remove work from series' });
+    }
+  });
+
+  // AO3 Import functionality
+  app.post('/api/fanworks/import/ao3', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { ao3Url, title, description } = ao3ImportSchema.parse(req.body);
+      
+      // Extract AO3 work ID from URL
+      const ao3WorkIdMatch = ao3Url.match(/\/works\/(\d+)/);
+      if (!ao3WorkIdMatch) {
+        return res.status(400).json({ message: 'Invalid AO3 URL format' });
+      }
+      
+      const ao3WorkId = ao3WorkIdMatch[1];
+
+      // Create fanwork with AO3 import data
+      const fanworkData = {
+        title: title || `Imported from AO3 Work ${ao3WorkId}`,
+        description: description || 'Imported from Archive of Our Own',
+        type: 'fanfiction',
+        rating: 'teen' as const, // Default rating, can be updated later
+        warnings: ['choose-not-to-warn' as const],
+        authorId: req.user!.id,
+        ao3WorkId,
+        ao3Url,
+        importedAt: new Date(),
+        content: `This work was imported from Archive of Our Own: ${ao3Url}\n\nPlease visit the original link for the full content.`,
+      };
+
+      const fanwork = await storage.createFanwork(fanworkData);
+      res.status(201).json(fanwork);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error importing from AO3:', error);
+      res.status(500).json({ message: 'Failed to import from AO3' });
+    }
+  });
+
+  // Like/Unlike fanwork
+  app.post('/api/fanworks/:id/like', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const fanworkId = parseInt(req.params.id);
+      const isLiked = await storage.toggleLike(req.user!.id, fanworkId);
+      if (isLiked) {
+        await notifyFanworkLiked(fanworkId, req.user!.id);
+      }
+      res.json({ isLiked });
+    } catch (error) {
+      console.error('Error toggling like:', error);
+      res.status(500).json({ message: 'Failed to toggle like' });
+    }
+  });
+
+  // Bookmark/Unbookmark fanwork
+  app.post('/api/fanworks/:id/bookmark', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const fanworkId = parseInt(req.params.id);
+      const isBookmarked = await storage.toggleBookmark(req.user!.id, fanworkId);
+      if (isBookmarked) {
+        await notifyFanworkBookmarked(fanworkId, req.user!.id);
+      }
+      res.json({ isBookmarked });
+    } catch (error) {
+      console.error('Error toggling bookmark:', error);
+      res.status(500).json({ message: 'Failed to toggle bookmark' });
+    }
+  });
+
+  app.patch('/api/fanworks/:id/bookmark', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { isPrivate } = z.object({ isPrivate: z.boolean() }).parse(req.body);
+      const updated = await storage.setBookmarkPrivacy(req.user!.id, parseInt(req.params.id), isPrivate);
+      if (!updated) {
+        return res.status(404).json({ message: 'Bookmark not found' });
+      }
+      res.json({ isPrivate });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error updating bookmark:', error);
+      res.status(500).json({ message: 'Failed to update bookmark' });
+    }
+  });
+
+  // Get fanwork counts (likes, comments, bookmarks)
+  app.get('/api/fanworks/:id/counts', async (req, res) => {
+    try {
+      const fanworkId = parseInt(req.params.id);
+      const counts = await storage.getFanworkCounts(fanworkId);
+      res.json(counts);
+    } catch (error) {
+      console.error('Error fetching counts:', error);
+      res.status(500).json({ message: 'Failed to fetch counts' });
+    }
+  });
+
+  // Comments
+  app.get('/api/fanworks/:id/comments', optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const fanworkId = parseInt(req.params.id);
+      const fanwork = await storage.getFanwork(fanworkId);
+
+      if (!fanwork || !(await storage.canViewFanwork(req.user?.id, fanwork))) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+      if (!canViewRating(req, fanwork.rating)) {
+        return sendAgeGateRequired(res);
+      }
+
+      const page = await storage.getComments(fanworkId, {
+        limit: req.query.limit ? Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100) : 20,
+        cursor: req.query.cursor as string | undefined,
+        includeTotal: req.query.includeTotal === 'true',
+        viewerId: req.user?.id,
+        includePending: !!req.user && await storage.canEditFanwork(req.user.id, fanwork),
+        mutedBy: req.user?.id,
+      });
+      res.json(page);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error fetching comments:', error);
+      res.status(500).json({ message: 'Failed to fetch comments' });
+    }
+  });
+
+  app.post('/api/fanworks/:id/comments', optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const fanworkId = parseInt(req.params.id);
+      const fanwork = await storage.getFanwork(fanworkId);
+
+      if (!fanwork || !(await storage.canViewFanwork(req.user?.id, fanwork))) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+      if (!canViewRating(req, fanwork.rating)) {
+        return sendAgeGateRequired(res);
+      }
+      if (fanwork.commentPolicy === 'disabled') {
+        return res.status(403).json({ message: 'Comments are disabled on this fanwork' });
+      }
+      if (!req.user && fanwork.commentPolicy !== 'open') {
+        return res.status(401).json({ message: 'Log in to comment on this fanwork' });
+      }
+
+      // A block from any of the work's creators keeps the commenter out
+      const creatorIds = [
+        fanwork.authorId,
+        ...(await storage.getFanworkCreators(fanworkId))
+          .filter(creator => creator.status === 'accepted')
+          .map(creator => creator.userId),
+      ];
+      if (req.user && await storage.isBlockedByAny(creatorIds, req.user.id)) {
+        return res.status(403).json({ message: 'You cannot comment on this fanwork' });
+      }
+      // Guests can't be matched against a block list, so once a creator has
+      // blocked someone, guest comments wait for the author's approval instead
+      const holdGuestComment = !req.user && await storage.hasBlockedAnyone(creatorIds);
+
+      const commentData = insertCommentSchema.parse({
+        ...req.body,
+        userId: req.user?.id ?? null,
+        guestName: req.user ? null : req.body.guestName?.trim(),
+        fanworkId,
+      });
+
+      if (!commentData.userId && !commentData.guestName) {
+        return res.status(400).json({ message: 'A name is required to comment as a guest' });
+      }
+
+      if (commentData.parentId) {
+        const parent = await storage.getComment(commentData.parentId);
+        // Only visible comments on this work can be replied to
+        if (!parent || parent.fanworkId !== fanworkId || !parent.isApproved || parent.deletedAt) {
+          return res.status(404).json({ message: 'Parent comment not found' });
+        }
+        if (parent.depth >= COMMENT_MAX_DEPTH) {
+          return res.status(400).json({ message: `Replies can only be nested ${COMMENT_MAX_DEPTH} levels deep` });
+        }
+      }
+
+      const comment = await storage.createComment({
+        ...commentData,
+        // Held comments only go live once a creator approves them
+        isApproved: (!!req.user && await storage.canEditFanwork(req.user.id, fanwork)) ||
+          (fanwork.commentPolicy !== 'moderated' && !holdGuestComment),
+      });
+      await notifyCommentCreated(comment, fanwork);
+      await publishComment(comment);
+      res.status(201).json(comment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error creating comment:', error);
+      res.status(500).json({ message: 'Failed to create comment' });
+    }
+  });
+
+  app.patch('/api/comments/:id', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const commentId = parseInt(req.params.id);
+      const comment = await storage.getComment(commentId);
+
+      if (!comment || comment.deletedAt) {
+        return res.status(404).json({ message: 'Comment not found' });
+      }
+      if (comment.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Only the commenter can edit this comment' });
+      }
+
+      const { content } = updateCommentSchema.parse(req.body);
+      const updated = await storage.updateComment(commentId, content, req.user!.id);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error updating comment:', error);
+      res.status(500).json({ message: 'Failed to update comment' });
+    }
+  });
+
+  app.delete('/api/comments/:id', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const commentId = parseInt(req.params.id);
+      const comment = await storage.getComment(commentId);
+
+      if (!comment || comment.deletedAt) {
+        return res.status(404).json({ message: 'Comment not found' });
+      }
+
+      // Commenters, the fanwork's creators and site moderators may all remove a comment
+      if (comment.userId !== req.user!.id) {
+        const fanwork = await storage.getFanwork(comment.fanworkId);
+        if (!fanwork || !(await storage.canEditFanwork(req.user!.id, fanwork))) {
+          const user = await storage.getUserById(req.user!.id);
+          if (user?.role !== 'moderator' && user?.role !== 'admin') {
+            return res.status(403).json({ message: 'Only the commenter, a creator or a moderator can delete this comment' });
+          }
+        }
+      }
+
+      const deleted = await storage.deleteComment(commentId, req.user!.id);
+      res.json(deleted);
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      res.status(500).json({ message: 'Failed to delete comment' });
+    }
+  });
+
+  app.post('/api/comments/:id/approve', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const commentId = parseInt(req.params.id);
+      const comment = await storage.getComment(commentId);
+      const fanwork = comment ? await storage.getFanwork(comment.fanworkId) : undefined;
+
+      if (!comment || !fanwork || comment.deletedAt) {
+        return res.status(404).json({ message: 'Comment not found' });
+      }
+      if (!(await storage.canEditFanwork(req.user!.id, fanwork))) {
+        return res.status(403).json({ message: 'Only the creators can approve comments' });
+      }
+
+      const approved = await storage.approveComment(commentId);
+      if (!comment.isApproved) {
+        await notifyCommentApproved(approved);
+        await publishComment(approved);
+      }
+      res.json(approved);
+    } catch (error) {
+      console.error('Error approving comment:', error);
+      res.status(500).json({ message: 'Failed to approve comment' });
+    }
+  });
+
+  app.get('/api/comments/:id/revisions', requireModerator, async (req: AuthRequest, res) => {
+    try {
+      const commentId = parseInt(req.params.id);
+      const comment = await storage.getComment(commentId);
+
+      if (!comment) {
+        return res.status(404).json({ message: 'Comment not found' });
+      }
+
+      const revisions = await storage.getCommentRevisions(commentId);
+      res.json({ comment, revisions });
+    } catch (error) {
+      console.error('Error fetching comment revisions:', error);
+      res.status(500).json({ message: 'Failed to fetch comment revisions' });
+    }
+  });
+
+  // Notifications
+  app.get('/api/notifications', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const page = await storage.getNotifications(req.user!.id, {
+        limit: req.query.limit ? Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100) : 20,
+        cursor: req.query.cursor as string | undefined,
+        unreadOnly: req.query.unread === 'true',
+      });
+      res.json(page);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error fetching notifications:', error);
+      res.status(500).json({ message: 'Failed to fetch notifications' });
+    }
+  });
+
+  app.get('/api/notifications/unread-count', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const count = await storage.getUnreadNotificationCount(req.user!.id);
+      res.json({ count });
+    } catch (error) {
+      console.error('Error fetching unread notification count:', error);
+      res.status(500).json({ message: 'Failed to fetch unread notification count' });
+    }
+  });
+
+  app.patch('/api/notifications/:id/read', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const notification = await storage.markNotificationRead(parseInt(req.params.id), req.user!.id);
+      if (!notification) {
+        return res.status(404).json({ message: 'Notification not found' });
+      }
+      res.json(notification);
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+      res.status(500).json({ message: 'Failed to mark notification read' });
+    }
+  });
+
+  app.post('/api/notifications/read-all', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await storage.markAllNotificationsRead(req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      res.status(500).json({ message: 'Failed to mark notifications read' });
+    }
+  });
+
+  // Public profiles
+  const profileImages = upload.fields([
+    { name: 'avatar', maxCount: 1 },
+    { name: 'banner', maxCount: 1 },
+  ]);
+
+  app.patch('/api/users/me', authenticateToken, profileImages, async (req: AuthRequest, res) => {
+    const files = (req.files || {}) as Record<string, Express.Multer.File[]>;
+    const avatarFile = files.avatar?.[0];
+    const bannerFile = files.banner?.[0];
+    const processedImages: string[] = [];
+
+    try {
+      const user = await storage.getUserById(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const { profile, avatarCrop, bannerCrop, removeAvatar, removeBanner } = parseProfileForm(req.body);
+      const updates: Parameters<typeof storage.updateUser>[1] = { ...profile };
+
+      if (avatarFile) {
+        updates.profileImageUrl = await processImageUpload(avatarFile, AVATAR_SIZE, avatarCrop);
+        processedImages.push(updates.profileImageUrl);
+      } else if (removeAvatar) {
+        updates.profileImageUrl = null;
+      }
+      if (bannerFile) {
+        updates.bannerImageUrl = await processImageUpload(bannerFile, BANNER_SIZE, bannerCrop);
+        processedImages.push(updates.bannerImageUrl);
+      } else if (removeBanner) {
+        updates.bannerImageUrl = null;
+      }
+
+      const updated = await storage.updateUser(user.id, updates);
+      if (updates.profileImageUrl !== undefined) {
+        removeUploadedFile(user.profileImageUrl);
+      }
+      if (updates.bannerImageUrl !== undefined) {
+        removeUploadedFile(user.bannerImageUrl);
+      }
+
+      const publicProfile = await storage.getPublicProfile(updated.username);
+      res.json({ ...publicProfile, bioHtml: renderMarkdown(updated.bio) });
+    } catch (error) {
+      // Nothing from a failed update should stay behind in /uploads
+      for (const file of [avatarFile, bannerFile]) {
+        if (file) removeUploadedFile(`/uploads/${file.filename}`);
+      }
+      processedImages.forEach(removeUploadedFile);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      if (error instanceof SyntaxError || error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error updating profile:', error);
+      res.status(500).json({ message: 'Failed to update profile' });
+    }
+  });
+
+  app.get('/api/users/me/blocks', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      res.json(await storage.getBlockedUsers(req.user!.id));
+    } catch (error) {
+      console.error('Error fetching blocked users:', error);
+      res.status(500).json({ message: 'Failed to fetch blocked users' });
+    }
+  });
+
+  app.get('/api/users/me/mutes', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      res.json(await storage.getMutedUsers(req.user!.id));
+    } catch (error) {
+      console.error('Error fetching muted users:', error);
+      res.status(500).json({ message: 'Failed to fetch muted users' });
+    }
+  });
+
+  app.get('/api/users/me/content-filters', authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const validatedData = registerSchema.parse(req.body);
-      
-      // Check if user already exists
-      const existingUserByEmail = await storage.getUserByEmail(validatedData.email);
-      if (existingUserByEmail) {
-        return res.status(400).json({ message: 'Email already registered' });
+      const user = await storage.getUserById(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
       }
+      res.json(await describeContentFilters(user.contentFilters));
+    } catch (error) {
+      console.error('Error fetching content filters:', error);
+      res.status(500).json({ message: 'Failed to fetch content filters' });
+    }
+  });
 
-      const existingUserByUsername = await storage.getUserByUsername(validatedData.username);
-      if (existingUserByUsername) {
-        return res.status(400).json({ message: 'Username already taken' });
+  app.put('/api/users/me/content-filters', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = updateContentFiltersSchema.parse(req.body);
+      const found = await Promise.all(data.excludeAuthors.map(username => storage.getUserByUsername(username)));
+      const unknown = data.excludeAuthors.filter((_, index) => !found[index]);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `No user named ${unknown.join(', ')}` });
       }
 
-      // Hash password and create user
-      const passwordHash = await hashPassword(validatedData.password);
-      const user = await storage.createUser({
-        email: validatedData.email,
-        username: validatedData.username,
-        passwordHash,
-        firstName: validatedData.firstName,
-        lastName: validatedData.lastName,
-        isActive: true
-      });
-
-      const token = generateToken(user.id);
-      res.json({ 
-        user: { id: user.id, email: user.email, username: user.username }, 
-        token 
-      });
+      const contentFilters: ContentFilters = {
+        excludeTags: Array.from(new Set(data.excludeTags.map(name => name.toLowerCase()))),
+        excludeWarnings: Array.from(new Set(data.excludeWarnings)),
+        excludeRatings: Array.from(new Set(data.excludeRatings)),
+        excludeAuthors: Array.from(new Set(
+          found.flatMap(user => (user && user.id !== req.user!.id ? [user.id] : [])),
+        )),
+      };
+      const updated = await storage.updateUser(req.user!.id, { contentFilters });
+      res.json(await describeContentFilters(updated.contentFilters));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Validation error', errors: error.errors });
       }
-      console.error('Registration error:', error);
-      res.status(500).json({ message: 'Registration failed' });
+      console.error('Error updating content filters:', error);
+      res.status(500).json({ message: 'Failed to update content filters' });
     }
   });
 
-  app.post('/api/auth/login', async (req, res) => {
+  app.get('/api/users/:username', optionalAuth, async (req: AuthRequest, res) => {
     try {
-      const validatedData = loginSchema.parse(req.body);
-
-      const user = await storage.getUserByEmail(validatedData.email);
-      if (!user || !user.isActive) {
-        return res.status(401).json({ message: 'Invalid credentials' });
+      const profile = await storage.getPublicProfile(req.params.username);
+      if (!profile) {
+        return res.status(404).json({ message: 'User not found' });
       }
 
-      const isValidPassword = await comparePassword(validatedData.password, user.passwordHash);
-      if (!isValidPassword) {
-        return res.status(401).json({ message: 'Invalid credentials' });
+      const [stats, isFollowing, isBlocking, isMuting] = await Promise.all([
+        storage.getProfileStats(profile.id),
+        req.user ? storage.isFollowing(req.user.id, profile.id) : Promise.resolve(false),
+        req.user ? storage.isBlocked(req.user.id, profile.id) : Promise.resolve(false),
+        req.user ? storage.isMuted(req.user.id, profile.id) : Promise.resolve(false),
+      ]);
+      res.json({
+        ...profile,
+        bioHtml: renderMarkdown(profile.bio),
+        stats,
+        viewer: { isFollowing, isBlocking, isMuting },
+      });
+    } catch (error) {
+      console.error('Error fetching user profile:', error);
+      res.status(500).json({ message: 'Failed to fetch user profile' });
+    }
+  });
+
+  app.get('/api/users/:username/bookmarks', optionalAuth, async (req: AuthRequest, res) => {
+    try {
+      const profile = await storage.getPublicProfile(req.params.username);
+      if (!profile) {
+        return res.status(404).json({ message: 'User not found' });
       }
 
-      const token = generateToken(user.id);
-      res.json({ 
-        user: { id: user.id, email: user.email, username: user.username }, 
-        token 
+      const page = await storage.getUserBookmarks(profile.id, {
+        limit: req.query.limit ? Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100) : 20,
+        cursor: req.query.cursor as string | undefined,
+        includePrivate: req.user?.id === profile.id,
+        contentFilters: await viewerContentFilters(req),
+      });
+      res.json({
+        ...page,
+        items: await presentFanworks(page.items, req.user?.id),
       });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
       }
-      console.error('Login error:', error);
-      res.status(500).json({ message: 'Login failed' });
+      console.error('Error fetching bookmarks:', error);
+      res.status(500).json({ message: 'Failed to fetch bookmarks' });
     }
   });
 
-  app.get('/api/auth/user', authenticateToken, async (req: AuthRequest, res) => {
+  app.get('/api/users/:username/gifts', optionalAuth, async (req: AuthRequest, res) => {
     try {
-      const user = await storage.getUserById(req.user!.id);
+      const user = await storage.getUserByUsername(req.params.username);
       if (!user) {
         return res.status(404).json({ message: 'User not found' });
       }
-      res.json({ id: user.id, email: user.email, username: user.username });
+
+      const page = await storage.getUserGifts(user.id, {
+        limit: req.query.limit ? Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100) : 20,
+        cursor: req.query.cursor as string | undefined,
+        contentFilters: await viewerContentFilters(req),
+      });
+      res.json({
+        ...page,
+        items: await presentFanworks(page.items, req.user?.id),
+      });
     } catch (error) {
-      console.error("Error fetching user:", error);
-      res.status(500).json({ message: "Failed to fetch user" });
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error fetching gifts:', error);
+      res.status(500).json({ message: 'Failed to fetch gifts' });
     }
   });
 
-  // Fanwork routes
-  app.get('/api/fanworks', optionalAuth as any, async (req: AuthRequest, res) => {
+  app.get('/api/users/:username/pseuds', async (req, res) => {
     try {
-      const filters = {
-        type: req.query.type ? (Array.isArray(req.query.type) ? req.query.type as string[] : [req.query.type as string]) : undefined,
-        rating: req.query.rating ? (Array.isArray(req.query.rating) ? req.query.rating as string[] : [req.query.rating as string]) : undefined,
-        tags: req.query.tags ? (Array.isArray(req.query.tags) ? req.query.tags as string[] : [req.query.tags as string]) : undefined,
-        search: req.query.search as string,
-        authorId: req.query.authorId as string,
-        limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
-        offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
-      };
+      const user = await storage.getUserByUsername(req.params.username);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
 
-      const fanworks = await storage.getFanworks(filters);
-      res.json(fanworks);
+      const pseuds = await storage.getPseuds(user.id);
+      res.json(pseuds);
     } catch (error) {
-      console.error('Error fetching fanworks:', error);
-      res.status(500).json({ message: 'Failed to fetch fanworks' });
+      console.error('Error fetching pseuds:', error);
+      res.status(500).json({ message: 'Failed to fetch pseuds' });
     }
   });
 
-  app.get('/api/fanworks/:id', optionalAuth, async (req: AuthRequest, res) => {
+  // Pseuds
+  app.post('/api/pseuds', authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const fanwork = await storage.getFanwork(id);
-      
-      if (!fanwork) {
-        return res.status(404).json({ message: 'Fanwork not found' });
+      const pseudData = insertPseudSchema.parse(req.body);
+      const existing = await storage.getPseuds(req.user!.id);
+      if (existing.some(pseud => pseud.name.toLowerCase() === pseudData.name.toLowerCase())) {
+        return res.status(409).json({ message: 'You already have a pseud with that name' });
       }
 
-      res.json(fanwork);
+      const pseud = await storage.createPseud(req.user!.id, pseudData);
+      res.status(201).json(pseud);
     } catch (error) {
-      console.error('Error fetching fanwork:', error);
-      res.status(500).json({ message: 'Failed to fetch fanwork' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Error creating pseud:', error);
+      res.status(500).json({ message: 'Failed to create pseud' });
     }
   });
 
-  app.post('/api/fanworks', authenticateToken, upload.single('file'), async (req: AuthRequest, res) => {
+  app.patch('/api/pseuds/:id', authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const fanworkData = insertFanworkSchema.parse({
-        ...req.body,
-        authorId: req.user!.id,
-        fileUrl: req.file ? `/uploads/${req.file.filename}` : undefined,
-      });
+      const pseud = await storage.getPseud(parseInt(req.params.id));
+      if (!pseud || pseud.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'Pseud not found' });
+      }
 
-      const fanwork = await storage.createFanwork(fanworkData);
-      
-      // Add tags if provided
-      if (req.body.tags) {
-        const tags = Array.isArray(req.body.tags) ? req.body.tags : [req.body.tags];
-        await storage.addTagsToFanwork(fanwork.id, tags);
+      const { isDefault, ...pseudData } = updatePseudSchema.parse(req.body);
+      if (pseudData.name) {
+        const existing = await storage.getPseuds(req.user!.id);
+        const nameTaken = existing.some(other =>
+          other.id !== pseud.id && other.name.toLowerCase() === pseudData.name!.toLowerCase());
+        if (nameTaken) {
+          return res.status(409).json({ message: 'You already have a pseud with that name' });
+        }
       }
 
-      res.status(201).json(fanwork);
+      let updated = pseud;
+      if (Object.keys(pseudData).length > 0) {
+        updated = await storage.updatePseud(pseud.id, pseudData);
+      }
+      if (isDefault) {
+        await storage.setDefaultPseud(req.user!.id, pseud.id);
+        updated = { ...updated, isDefault: true };
+      }
+      res.json(updated);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Validation error', errors: error.errors });
       }
-      console.error('Error creating fanwork:', error);
-      res.status(500).json({ message: 'Failed to create fanwork' });
+      console.error('Error updating pseud:', error);
+      res.status(500).json({ message: 'Failed to update pseud' });
     }
   });
 
-  // AO3 Import functionality
-  app.post('/api/fanworks/import/ao3', authenticateToken, async (req: AuthRequest, res) => {
+  app.delete('/api/pseuds/:id', authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const { ao3Url, title, description } = ao3ImportSchema.parse(req.body);
-      
-      // Extract AO3 work ID from URL
-      const ao3WorkIdMatch = ao3Url.match(/\/works\/(\d+)/);
-      if (!ao3WorkIdMatch) {
-        return res.status(400).json({ message: 'Invalid AO3 URL format' });
+      const pseud = await storage.getPseud(parseInt(req.params.id));
+      if (!pseud || pseud.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'Pseud not found' });
+      }
+      if (pseud.isDefault) {
+        return res.status(400).json({ message: 'Choose another default pseud before deleting this one' });
       }
-      
-      const ao3WorkId = ao3WorkIdMatch[1];
 
-      // Create fanwork with AO3 import data
-      const fanworkData = {
-        title: title || `Imported from AO3 Work ${ao3WorkId}`,
-        description: description || 'Imported from Archive of Our Own',
-        type: 'fanfiction',
-        rating: 'teen', // Default rating, can be updated later
-        authorId: req.user!.id,
-        ao3WorkId,
-        ao3Url,
-        importedAt: new Date(),
-        content: `This work was imported from Archive of Our Own: ${ao3Url}\n\nPlease visit the original link for the full content.`,
-      };
+      await storage.deletePseud(pseud);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting pseud:', error);
+      res.status(500).json({ message: 'Failed to delete pseud' });
+    }
+  });
 
-      const fanwork = await storage.createFanwork(fanworkData);
-      res.status(201).json(fanwork);
+  // Follows and subscriptions
+  app.get('/api/feed', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const page = await storage.getFeed(req.user!.id, {
+        limit: req.query.limit ? Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100) : 20,
+        cursor: req.query.cursor as string | undefined,
+        contentFilters: await viewerContentFilters(req),
+      });
+      res.json({
+        ...page,
+        items: await presentFanworks(page.items, req.user!.id),
+      });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
       }
-      console.error('Error importing from AO3:', error);
-      res.status(500).json({ message: 'Failed to import from AO3' });
+      console.error('Error fetching feed:', error);
+      res.status(500).json({ message: 'Failed to fetch feed' });
     }
   });
 
-  // Like/Unlike fanwork
-  app.post('/api/fanworks/:id/like', authenticateToken, async (req: AuthRequest, res) => {
+  app.get('/api/users/:id/follow', authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const fanworkId = parseInt(req.params.id);
-      const isLiked = await storage.toggleLike(req.user!.id, fanworkId);
-      res.json({ isLiked });
+      const isFollowing = await storage.isFollowing(req.user!.id, parseInt(req.params.id));
+      res.json({ isFollowing });
     } catch (error) {
-      console.error('Error toggling like:', error);
-      res.status(500).json({ message: 'Failed to toggle like' });
+      console.error('Error fetching follow status:', error);
+      res.status(500).json({ message: 'Failed to fetch follow status' });
     }
   });
 
-  // Bookmark/Unbookmark fanwork
-  app.post('/api/fanworks/:id/bookmark', authenticateToken, async (req: AuthRequest, res) => {
+  app.post('/api/users/:id/follow', authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const fanworkId = parseInt(req.params.id);
-      const isBookmarked = await storage.toggleBookmark(req.user!.id, fanworkId);
-      res.json({ isBookmarked });
+      const followingId = parseInt(req.params.id);
+      if (followingId === req.user!.id) {
+        return res.status(400).json({ message: 'You cannot follow yourself' });
+      }
+
+      const following = await storage.getUserById(followingId);
+      if (!following) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      if (await storage.isBlocked(followingId, req.user!.id)) {
+        return res.status(403).json({ message: 'You cannot follow this user' });
+      }
+
+      await storage.followUser(req.user!.id, followingId);
+      res.status(204).send();
     } catch (error) {
-      console.error('Error toggling bookmark:', error);
-      res.status(500).json({ message: 'Failed to toggle bookmark' });
+      console.error('Error following user:', error);
+      res.status(500).json({ message: 'Failed to follow user' });
     }
   });
 
-  // Get fanwork counts (likes, comments, bookmarks)
-  app.get('/api/fanworks/:id/counts', async (req, res) => {
+  app.delete('/api/users/:id/follow', authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const fanworkId = parseInt(req.params.id);
-      const counts = await storage.getFanworkCounts(fanworkId);
-      res.json(counts);
+      await storage.unfollowUser(req.user!.id, parseInt(req.params.id));
+      res.status(204).send();
     } catch (error) {
-      console.error('Error fetching counts:', error);
-      res.status(500).json({ message: 'Failed to fetch counts' });
+      console.error('Error unfollowing user:', error);
+      res.status(500).json({ message: 'Failed to unfollow user' });
     }
   });
 
-  // Comments
-  app.get('/api/fanworks/:id/comments', async (req, res) => {
+  app.post('/api/fanworks/:id/subscribe', authenticateToken, async (req: AuthRequest, res) => {
     try {
       const fanworkId = parseInt(req.params.id);
-      const comments = await storage.getComments(fanworkId);
-      res.json(comments);
+      const fanwork = await storage.getFanwork(fanworkId);
+      if (!fanwork || !(await storage.canViewFanwork(req.user!.id, fanwork))) {
+        return res.status(404).json({ message: 'Fanwork not found' });
+      }
+
+      await storage.subscribeToFanwork(req.user!.id, fanworkId);
+      res.status(204).send();
     } catch (error) {
-      console.error('Error fetching comments:', error);
-      res.status(500).json({ message: 'Failed to fetch comments' });
+      console.error('Error subscribing to fanwork:', error);
+      res.status(500).json({ message: 'Failed to subscribe to fanwork' });
     }
   });
 
-  app.post('/api/fanworks/:id/comments', authenticateToken, async (req: AuthRequest, res) => {
+  app.delete('/api/fanworks/:id/subscribe', authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const fanworkId = parseInt(req.params.id);
-      const commentData = insertCommentSchema.parse({
-        ...req.body,
-        userId: req.user!.id,
-        fanworkId,
-      });
+      await storage.unsubscribeFromFanwork(req.user!.id, parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error unsubscribing from fanwork:', error);
+      res.status(500).json({ message: 'Failed to unsubscribe from fanwork' });
+    }
+  });
 
-      const comment = await storage.createComment(commentData);
-      res.status(201).json(comment);
+  app.post('/api/series/:id/subscribe', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const seriesId = parseInt(req.params.id);
+      const series = await storage.getSeries(seriesId);
+      if (!series) {
+        return res.status(404).json({ message: 'Series not found' });
+      }
+
+      await storage.subscribeToSeries(req.user!.id, seriesId);
+      res.status(204).send();
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      console.error('Error subscribing to series:', error);
+      res.status(500).json({ message: 'Failed to subscribe to series' });
+    }
+  });
+
+  app.delete('/api/series/:id/subscribe', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await storage.unsubscribeFromSeries(req.user!.id, parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error unsubscribing from series:', error);
+      res.status(500).json({ message: 'Failed to unsubscribe from series' });
+    }
+  });
+
+  // Blocking
+  app.post('/api/users/:id/block', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const blockedId = parseInt(req.params.id);
+      if (blockedId === req.user!.id) {
+        return res.status(400).json({ message: 'You cannot block yourself' });
       }
-      console.error('Error creating comment:', error);
-      res.status(500).json({ message: 'Failed to create comment' });
+
+      const blocked = await storage.getUserById(blockedId);
+      if (!blocked) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      await storage.blockUser(req.user!.id, blockedId);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      res.status(500).json({ message: 'Failed to block user' });
+    }
+  });
+
+  app.delete('/api/users/:id/block', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await storage.unblockUser(req.user!.id, parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error unblocking user:', error);
+      res.status(500).json({ message: 'Failed to unblock user' });
+    }
+  });
+
+  // Muting
+  app.post('/api/users/:id/mute', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const mutedId = parseInt(req.params.id);
+      if (mutedId === req.user!.id) {
+        return res.status(400).json({ message: 'You cannot mute yourself' });
+      }
+
+      const muted = await storage.getUserById(mutedId);
+      if (!muted) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      await storage.muteUser(req.user!.id, mutedId);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error muting user:', error);
+      res.status(500).json({ message: 'Failed to mute user' });
+    }
+  });
+
+  app.delete('/api/users/:id/mute', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await storage.unmuteUser(req.user!.id, parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error unmuting user:', error);
+      res.status(500).json({ message: 'Failed to unmute user' });
     }
   });
 
@@ -353,6 +1968,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         reviewedBy: req.user!.id,
         reviewedAt: new Date(),
       });
+
+      if (status && status !== 'pending') {
+        await notifyReportResolved(report);
+      }
       
       res.json(report);
     } catch (error) {
@@ -424,7 +2043,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete('/api/admin/fanworks/:id', requireModerator, async (req: AuthRequest, res) => {
     try {
       const fanworkId = parseInt(req.params.id);
+      const fanwork = await storage.getFanwork(fanworkId);
       await storage.deleteFanwork(fanworkId);
+      removeUploadedFile(fanwork?.contentUrl ?? null);
       res.status(204).send();
     } catch (error) {
       console.error('Error deleting fanwork:', error);
@@ -432,6 +2053,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/admin/search/reindex', requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const count = await storage.reindexAllFanworks();
+      res.json({ reindexed: count });
+    } catch (error) {
+      console.error('Error rebuilding search index:', error);
+      res.status(500).json({ message: 'Failed to rebuild search index' });
+    }
+  });
+
   app.patch('/api/admin/users/:id/role', requireAdmin, async (req: AuthRequest, res) => {
     try {
       const userId = req.params.id;
@@ -477,8 +2108,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Serve uploaded files
-  app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
+  // Files belonging to age-gated works need a signed URL from presentFanworks
+  app.use('/uploads', async (req, res, next) => {
+    try {
+      // Match on the name express.static will actually serve, and refuse
+      // anything that isn't a plain file name rather than guess
+      let filename: string;
+      try {
+        filename = decodeURIComponent(req.path.slice(1));
+      } catch {
+        return res.status(400).json({ message: 'Invalid file path' });
+      }
+      if (!filename || filename !== path.basename(filename) || /[\\/\0]/.test(filename) || filename.startsWith('.')) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+
+      const contentUrl = `/uploads/${filename}`;
+      const fanwork = await storage.getFanworkByContentUrl(contentUrl);
+      if (!fanwork || !AGE_GATED_RATINGS.includes(fanwork.rating) || hasValidUploadSignature(contentUrl, req.query)) {
+        return next();
+      }
+      sendAgeGateRequired(res);
+    } catch (error) {
+      console.error('Error checking upload access:', error);
+      res.status(500).json({ message: 'Failed to fetch file' });
+    }
+  }, express.static(path.join(process.cwd(), 'uploads')));
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer);
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { storage } from "./storage";
+import { notifyFanworkPublished } from "./notifications";
+
+const PUBLISH_INTERVAL_MS = 60 * 1000;
+
+// Publishes scheduled works once their publishAt has passed. It runs in the
+// web process, so works go live within a minute of their time, or on the
+// first tick after a restart if the server was down.
+export function startPublishScheduler(): NodeJS.Timeout {
+  const publishDue = async () => {
+    try {
+      const published = await storage.publishDueFanworks();
+      for (const fanwork of published) {
+        await notifyFanworkPublished(fanwork);
+      }
+    } catch (error) {
+      console.error('Error publishing scheduled fanworks:', error);
+    }
+  };
+
+  void publishDue();
+  return setInterval(publishDue, PUBLISH_INTERVAL_MS);
+}
@@ -1,27 +1,405 @@
 import {
   users,
+  pseuds,
   fanworks,
+  fanworkRevisions,
   tags,
   fanworkTags,
+  fanworkSearch,
+  chapters,
+  series,
+  seriesWorks,
   likes,
   comments,
+  commentRevisions,
+  userBlocks,
+  userMutes,
+  follows,
+  subscriptions,
+  fanworkCreators,
+  fanworkGifts,
+  notifications,
   bookmarks,
   reports,
   type User,
   type UpsertUser,
+  type ContentFilters,
+  type Pseud,
+  type FanworkCreator,
+  type InsertPseud,
   type Fanwork,
   type InsertFanwork,
+  type ArchiveWarning,
+  type FanworkCategory,
+  type FanworkRevision,
+  fanworkRatings,
+  type Chapter,
+  type ChapterSnapshot,
+  type InsertChapter,
+  type Series,
+  type InsertSeries,
   type Tag,
   type InsertTag,
   type Comment,
   type InsertComment,
+  type CommentRevision,
+  type Notification,
+  type InsertNotification,
   type Like,
   type Bookmark,
   type Report,
   type InsertReport,
+  type AuthorSummary,
+  type PseudSummary,
+  type PseudWithCount,
+  type CreatorCredit,
+  type ViewerCreatorStatus,
+  type FanworkCounts,
+  type EnrichedFanwork,
+  type FanworkListItem,
+  type FanworkPage,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql, ilike, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { eq, desc, and, or, not, sql, arrayOverlaps, ilike, inArray, notInArray, notExists, ne, gt, gte, lt, lte, isNull, type SQL } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function countWords(text: string | null | undefined): number {
+  if (!text) return 0;
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+// A chaptered work's text as one document, so it diffs like a oneshot's
+export function chapterText(parts: Pick<Chapter, "content">[]): string {
+  return parts.map(part => part.content).join("\n\n");
+}
+
+async function lockFanwork(tx: Transaction, fanworkId: number): Promise<Fanwork | undefined> {
+  const [fanwork] = await tx.select().from(fanworks).where(eq(fanworks.id, fanworkId)).for("update");
+  return fanwork;
+}
+
+// Keeps the work's current title, description and text as a revision, along
+// with each chapter when its text lives in chapters
+async function recordRevision(tx: Transaction, fanwork: Fanwork, editedBy?: number): Promise<void> {
+  const current = await tx
+    .select()
+    .from(chapters)
+    .where(eq(chapters.fanworkId, fanwork.id))
+    .orderBy(chapters.position);
+  const snapshot: ChapterSnapshot[] = current.map(({ title, summary, notes, endNotes, content }) =>
+    ({ title, summary, notes, endNotes, content }));
+
+  await tx.insert(fanworkRevisions).values({
+    fanworkId: fanwork.id,
+    title: fanwork.title,
+    description: fanwork.description,
+    textContent: snapshot.length ? chapterText(snapshot) : fanwork.textContent,
+    chapters: snapshot.length ? snapshot : null,
+    editedBy,
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Accepts web-search syntax: "quoted phrases", -negation and OR
+function toSearchQuery(search: string): SQL {
+  return sql`websearch_to_tsquery('english', ${search})`;
+}
+
+export const fanworkSortOptions = ["latest", "relevance", "popular", "favorited", "commented", "trending"] as const;
+export type FanworkSort = typeof fanworkSortOptions[number];
+
+export interface FanworkFilters {
+  type?: string[];
+  rating?: string[];
+  // Works carrying any of these warnings are left out
+  excludeWarnings?: string[];
+  // Works in at least one of these categories
+  categories?: string[];
+  tags?: string[];
+  // "all" requires every tag in `tags`, "any" requires at least one
+  tagMode?: "all" | "any";
+  excludeTags?: string[];
+  search?: string;
+  authorId?: string;
+  pseudId?: number;
+  // Also lists this user's own drafts and scheduled works
+  viewerId?: number;
+  // The viewer's saved filters, left out when they ask to see filtered works
+  contentFilters?: ContentFilters;
+  sortBy?: FanworkSort;
+  limit?: number;
+  // Opaque token from a previous page's nextCursor
+  cursor?: string;
+  includeTotal?: boolean;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+// Cursors carry timestamps as Postgres prints them (::text), keeping microseconds
+const cursorTimestamp = z.string().regex(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?$/);
+const cursorId = z.number().int().positive();
+
+// Cursors come back from clients, so everything in them is checked before it
+// reaches a query
+function decodeCursor<T extends z.ZodTypeAny>(token: string, schema: T): z.infer<T> {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  const cursor = schema.safeParse(decoded);
+  if (!cursor.success) {
+    throw new InvalidCursorError();
+  }
+  return cursor.data;
+}
+
+const fanworkCursorSchema = z.object({
+  sortBy: z.enum(fanworkSortOptions),
+  score: z.number().finite().nullable(),
+  listedAt: cursorTimestamp,
+  id: cursorId,
+  asOf: cursorTimestamp,
+});
+
+type FanworkCursor = z.infer<typeof fanworkCursorSchema>;
+
+function encodeFanworkCursor(cursor: FanworkCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeFanworkCursor(token: string, sortBy: FanworkSort): FanworkCursor {
+  const cursor = decodeCursor(token, fanworkCursorSchema);
+  // A cursor is only meaningful for the ordering that produced it
+  if (cursor.sortBy !== sortBy) {
+    throw new InvalidCursorError();
+  }
+  return cursor;
+}
+
+export type CreatorWithUser = FanworkCreator & CreatorCredit;
+
+export type CommentWithUser = Comment & { user: AuthorSummary | null };
+
+// What anyone may see about a user; never includes email or credentials
+export type PublicProfile = AuthorSummary &
+  Pick<User, "bannerImageUrl" | "bio" | "pronouns" | "links" | "createdAt">;
+
+export interface ProfileStats {
+  artworks: number;
+  fanfictions: number;
+  likesReceived: number;
+  commentsReceived: number;
+  bookmarksReceived: number;
+  followers: number;
+  following: number;
+}
+
+export interface BookmarkFilters {
+  limit?: number;
+  cursor?: string;
+  // Only the bookmark owner sees their private bookmarks
+  includePrivate?: boolean;
+  contentFilters?: ContentFilters;
+}
+
+const authorSummaryColumns = {
+  id: users.id,
+  username: users.username,
+  firstName: users.firstName,
+  lastName: users.lastName,
+  profileImageUrl: users.profileImageUrl,
+};
+
+const publicProfileColumns = {
+  ...authorSummaryColumns,
+  bannerImageUrl: users.bannerImageUrl,
+  bio: users.bio,
+  pronouns: users.pronouns,
+  links: users.links,
+  createdAt: users.createdAt,
+};
+
+// How many levels of replies may hang below a top-level comment
+export const COMMENT_MAX_DEPTH = parseInt(process.env.COMMENT_MAX_DEPTH || "5", 10);
+
+export type CommentThread = CommentWithUser & {
+  // Every reply beneath this comment, however deeply nested
+  replyCount: number;
+  replies: CommentThread[];
+};
+
+// An entry in a user's block or mute list
+export type RelatedUser = AuthorSummary & { createdAt: Date | null };
+
+export type CommentRevisionWithEditor = CommentRevision & { editor: AuthorSummary | null };
+
+// Revision listings leave out the text itself, which is fetched per revision
+export type FanworkRevisionSummary = Pick<FanworkRevision, "id" | "title" | "createdAt"> & {
+  wordCount: number;
+  editor: AuthorSummary | null;
+};
+
+export type NotificationWithContext = Notification & {
+  actor: AuthorSummary | null;
+  fanwork: { id: number; title: string } | null;
+};
+
+export interface NotificationFilters {
+  limit?: number;
+  cursor?: string;
+  unreadOnly?: boolean;
+}
+
+export interface NotificationPage {
+  items: NotificationWithContext[];
+  nextCursor: string | null;
+}
+
+export interface CommentFilters {
+  limit?: number;
+  cursor?: string;
+  includeTotal?: boolean;
+  // Comments awaiting approval are shown to their own commenter...
+  viewerId?: number;
+  // ...and to everyone when the fanwork's author is looking
+  includePending?: boolean;
+  // Comments by users this viewer has muted are left out, with the replies beneath them
+  mutedBy?: number;
+}
+
+// Pages are made of top-level threads; replies always travel with their thread
+export interface CommentPage {
+  items: CommentThread[];
+  nextCursor: string | null;
+  totalCount?: number;
+  maxDepth: number;
+}
+
+// Position in a list ordered by a timestamp (newest first), ties broken by id
+const timestampCursorSchema = z.object({
+  at: cursorTimestamp,
+  id: cursorId,
+});
+
+type TimestampCursor = z.infer<typeof timestampCursorSchema>;
+
+// Drafts and scheduled works are only listed for their owner and accepted co-creators
+function visibleFanworks(viewerId?: number): SQL {
+  const published = eq(fanworks.status, "published");
+  if (!viewerId) return published;
+  return or(
+    published,
+    eq(fanworks.authorId, viewerId),
+    inArray(
+      fanworks.id,
+      db
+        .select({ id: fanworkCreators.fanworkId })
+        .from(fanworkCreators)
+        .where(and(eq(fanworkCreators.userId, viewerId), eq(fanworkCreators.status, "accepted"))),
+    ),
+  )!;
+}
+
+function fanworksTaggedWith(names: string[]) {
+  return db
+    .select({ fanworkId: fanworkTags.fanworkId })
+    .from(fanworkTags)
+    .innerJoin(tags, eq(fanworkTags.tagId, tags.id))
+    .where(inArray(sql`lower(${tags.name})`, names.map(name => name.trim().toLowerCase())));
+}
+
+// Listings date works from when they went live; drafts, only listed for their
+// creators, from when they were started
+const fanworkListedAt = sql`coalesce(${fanworks.publishedAt}, ${fanworks.createdAt})`;
+
+// Comments that count towards a work's public totals: not deleted, and not
+// still held for the author's approval
+const publicComment = and(isNull(comments.deletedAt), eq(comments.isApproved, true))!;
+
+// A reader's saved filters, applied to every listing they browse. Excluding an
+// author also hides the works they accepted a co-creator credit on.
+function contentFilterConditions(filters?: ContentFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (!filters) return conditions;
+
+  if (filters.excludeTags.length) {
+    conditions.push(notInArray(fanworks.id, fanworksTaggedWith(filters.excludeTags)));
+  }
+  if (filters.excludeWarnings.length) {
+    conditions.push(not(arrayOverlaps(fanworks.warnings, filters.excludeWarnings)));
+  }
+  if (filters.excludeRatings.length) {
+    conditions.push(notInArray(fanworks.rating, filters.excludeRatings));
+  }
+  if (filters.excludeAuthors.length) {
+    conditions.push(
+      notInArray(fanworks.authorId, filters.excludeAuthors),
+      notInArray(
+        fanworks.id,
+        db
+          .select({ id: fanworkCreators.fanworkId })
+          .from(fanworkCreators)
+          .where(and(inArray(fanworkCreators.userId, filters.excludeAuthors), eq(fanworkCreators.status, "accepted"))),
+      ),
+    );
+  }
+  return conditions;
+}
+
+function encodeTimestampCursor(cursor: TimestampCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeTimestampCursor(token: string): TimestampCursor {
+  return decodeCursor(token, timestampCursorSchema);
+}
+
+// The feed also pins the moment its first page was read, like fanwork listings,
+// so works published while paging don't shift later pages
+const feedCursorSchema = timestampCursorSchema.extend({
+  asOf: cursorTimestamp,
+});
+
+type FeedCursor = z.infer<typeof feedCursorSchema>;
+
+function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeFeedCursor(token: string): FeedCursor {
+  return decodeCursor(token, feedCursorSchema);
+}
+
+export interface FeedFilters {
+  limit?: number;
+  cursor?: string;
+  contentFilters?: ContentFilters;
+}
+
+export interface SeriesNavigation {
+  series: Series;
+  position: number;
+  partCount: number;
+  previous: Pick<Fanwork, "id" | "title"> | null;
+  next: Pick<Fanwork, "id" | "title"> | null;
+}
 
 export interface IStorage {
   // User operations for email/password auth
@@ -30,43 +408,128 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: UpsertUser): Promise<User>;
   updateUser(id: number, updates: Partial<UpsertUser>): Promise<User>;
+  getUserSummaries(ids: number[]): Promise<AuthorSummary[]>;
+  getPublicProfile(username: string): Promise<PublicProfile | undefined>;
+  getProfileStats(userId: number): Promise<ProfileStats>;
+
+  // Pseud operations
+  getPseuds(userId: number): Promise<PseudWithCount[]>;
+  getPseud(id: number): Promise<Pseud | undefined>;
+  getDefaultPseud(userId: number): Promise<Pseud>;
+  backfillDefaultPseuds(): Promise<number>;
+  createPseud(userId: number, pseud: InsertPseud): Promise<Pseud>;
+  updatePseud(id: number, pseud: Partial<InsertPseud>): Promise<Pseud>;
+  setDefaultPseud(userId: number, pseudId: number): Promise<void>;
+  deletePseud(pseud: Pseud): Promise<void>;
   
   // Fanwork operations
-  getFanworks(filters?: {
-    type?: string[];
-    rating?: string[];
-    tags?: string[];
-    search?: string;
-    authorId?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<Fanwork[]>;
+  getFanworks(filters?: FanworkFilters): Promise<FanworkPage<FanworkListItem>>;
   getFanwork(id: number): Promise<Fanwork | undefined>;
+  getFanworkByContentUrl(contentUrl: string): Promise<Pick<Fanwork, "id" | "rating"> | undefined>;
   createFanwork(fanwork: InsertFanwork): Promise<Fanwork>;
-  updateFanwork(id: number, fanwork: Partial<InsertFanwork>): Promise<Fanwork>;
+  updateFanwork(id: number, fanwork: Partial<InsertFanwork>, editedBy?: number): Promise<Fanwork>;
+  publishFanwork(id: number): Promise<Fanwork | undefined>;
+  publishDueFanworks(): Promise<Fanwork[]>;
   deleteFanwork(id: number): Promise<void>;
+  normalizeFanworkRatings(): Promise<number>;
+  backfillPublishedAt(): Promise<number>;
+  getFanworkRevisions(fanworkId: number): Promise<FanworkRevisionSummary[]>;
+  getFanworkRevision(id: number): Promise<FanworkRevision | undefined>;
+  restoreFanworkRevision(fanwork: Fanwork, revision: FanworkRevision, editedBy: number): Promise<Fanwork>;
+  refreshSearchIndex(fanworkId: number): Promise<void>;
+  reindexAllFanworks(): Promise<number>;
+
+  // Chapter operations
+  getChapters(fanworkId: number): Promise<Chapter[]>;
+  getChapter(id: number): Promise<Chapter | undefined>;
+  createChapter(chapter: InsertChapter): Promise<Chapter>;
+  updateChapter(id: number, chapter: Partial<InsertChapter> & { position?: number }, editedBy?: number): Promise<Chapter>;
+  deleteChapter(id: number, editedBy?: number): Promise<void>;
+  refreshChapterStats(fanworkId: number): Promise<Fanwork>;
+
+  // Series operations
+  getAllSeries(filters?: { authorId?: number; limit?: number; offset?: number; contentFilters?: ContentFilters }): Promise<Series[]>;
+  getSeries(id: number): Promise<Series | undefined>;
+  createSeries(data: InsertSeries): Promise<Series>;
+  updateSeries(id: number, data: Partial<InsertSeries>): Promise<Series>;
+  deleteSeries(id: number): Promise<void>;
+  getSeriesWorks(seriesId: number, options?: { publishedOnly?: boolean; contentFilters?: ContentFilters }): Promise<(Fanwork & { position: number })[]>;
+  addFanworkToSeries(seriesId: number, fanworkId: number): Promise<void>;
+  removeFanworkFromSeries(seriesId: number, fanworkId: number): Promise<void>;
+  reorderSeriesWorks(seriesId: number, fanworkIds: number[]): Promise<void>;
+  getSeriesNavigation(fanworkId: number, options?: { viewerId?: number; contentFilters?: ContentFilters }): Promise<SeriesNavigation[]>;
   
   // Tag operations
   getTags(): Promise<Tag[]>;
   getOrCreateTag(name: string): Promise<Tag>;
   addTagsToFanwork(fanworkId: number, tagNames: string[]): Promise<void>;
+  setFanworkTags(fanworkId: number, tagNames: string[]): Promise<void>;
   getFanworkTags(fanworkId: number): Promise<Tag[]>;
   
   // Interaction operations
   toggleLike(userId: number, fanworkId: number): Promise<boolean>;
   toggleBookmark(userId: number, fanworkId: number): Promise<boolean>;
+  setBookmarkPrivacy(userId: number, fanworkId: number, isPrivate: boolean): Promise<boolean>;
+  getUserBookmarks(userId: number, filters?: BookmarkFilters): Promise<FanworkPage<Fanwork>>;
   isLiked(userId: number, fanworkId: number): Promise<boolean>;
   isBookmarked(userId: number, fanworkId: number): Promise<boolean>;
-  getFanworkCounts(fanworkId: number): Promise<{
-    likes: number;
-    comments: number;
-    bookmarks: number;
-  }>;
+  getFanworkCounts(fanworkId: number): Promise<FanworkCounts>;
+  enrichFanworks<T extends Fanwork>(items: T[], viewerId?: number): Promise<EnrichedFanwork<T>[]>;
   
   // Comment operations
-  getComments(fanworkId: number): Promise<Comment[]>;
-  createComment(comment: InsertComment): Promise<Comment>;
-  deleteComment(id: number, userId: number): Promise<void>;
+  getComment(id: number): Promise<Comment | undefined>;
+  getComments(fanworkId: number, filters?: CommentFilters): Promise<CommentPage>;
+  createComment(comment: InsertComment & { isApproved?: boolean }): Promise<Comment>;
+  updateComment(id: number, content: string, editedBy: number): Promise<Comment>;
+  approveComment(id: number): Promise<Comment>;
+  deleteComment(id: number, deletedBy: number): Promise<Comment>;
+  getCommentRevisions(commentId: number): Promise<CommentRevisionWithEditor[]>;
+
+  // Notification operations
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotification(id: number): Promise<NotificationWithContext | undefined>;
+  getNotifications(userId: number, filters?: NotificationFilters): Promise<NotificationPage>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  markNotificationRead(id: number, userId: number): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<void>;
+
+  // Follow and subscription operations
+  followUser(followerId: number, followingId: number): Promise<void>;
+  unfollowUser(followerId: number, followingId: number): Promise<void>;
+  isFollowing(followerId: number, followingId: number): Promise<boolean>;
+  subscribeToFanwork(userId: number, fanworkId: number): Promise<void>;
+  unsubscribeFromFanwork(userId: number, fanworkId: number): Promise<void>;
+  subscribeToSeries(userId: number, seriesId: number): Promise<void>;
+  unsubscribeFromSeries(userId: number, seriesId: number): Promise<void>;
+  isSubscribedToSeries(userId: number, seriesId: number): Promise<boolean>;
+  getFeed(userId: number, filters?: FeedFilters): Promise<FanworkPage<Fanwork>>;
+
+  // Co-creator and gift operations
+  getFanworkCreators(fanworkId: number): Promise<CreatorWithUser[]>;
+  getFanworkCreator(fanworkId: number, userId: number): Promise<FanworkCreator | undefined>;
+  inviteCreator(fanworkId: number, userId: number, invitedBy: number): Promise<FanworkCreator>;
+  acceptCreatorInvite(fanworkId: number, userId: number, pseudId: number): Promise<FanworkCreator>;
+  removeCreator(fanworkId: number, userId: number): Promise<void>;
+  canEditFanwork(userId: number, fanwork: Fanwork): Promise<boolean>;
+  canViewFanwork(userId: number | undefined, fanwork: Fanwork): Promise<boolean>;
+  getFanworkGiftRecipients(fanworkId: number): Promise<number[]>;
+  setFanworkGifts(fanworkId: number, recipientIds: number[]): Promise<number[]>;
+  getUserGifts(userId: number, filters?: FeedFilters): Promise<FanworkPage<Fanwork>>;
+
+  // Block operations
+  blockUser(blockerId: number, blockedId: number): Promise<void>;
+  unblockUser(blockerId: number, blockedId: number): Promise<void>;
+  isBlocked(blockerId: number, blockedId: number): Promise<boolean>;
+  isBlockedByAny(blockerIds: number[], blockedId: number): Promise<boolean>;
+  hasBlockedAnyone(blockerIds: number[]): Promise<boolean>;
+  getBlockedUsers(blockerId: number): Promise<RelatedUser[]>;
+
+  // Mute operations
+  muteUser(muterId: number, mutedId: number): Promise<void>;
+  unmuteUser(muterId: number, mutedId: number): Promise<void>;
+  isMuted(muterId: number, mutedId: number): Promise<boolean>;
+  getMutedUsers(muterId: number): Promise<RelatedUser[]>;
+  getMuterIds(mutedId: number): Promise<number[]>;
 
   // Moderation operations
   createReport(report: InsertReport): Promise<Report>;
@@ -97,12 +560,69 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getPublicProfile(username: string): Promise<PublicProfile | undefined> {
+    const [profile] = await db
+      .select(publicProfileColumns)
+      .from(users)
+      .where(eq(users.username, username));
+    return profile || undefined;
+  }
+
+  async getProfileStats(userId: number): Promise<ProfileStats> {
+    const authored = db.select({ id: fanworks.id }).from(fanworks).where(eq(fanworks.authorId, userId));
+
+    const [[works], [likesReceived], [commentsReceived], [bookmarksReceived], [followers], [following]] =
+      await Promise.all([
+        db
+          .select({
+            // Every visual type, comics included
+            artworks: sql<number>`(count(*) filter (where ${fanworks.type} <> 'fanfiction'))::int`,
+            fanfictions: sql<number>`(count(*) filter (where ${fanworks.type} = 'fanfiction'))::int`,
+          })
+          .from(fanworks)
+          .where(and(eq(fanworks.authorId, userId), eq(fanworks.isHidden, false), eq(fanworks.status, "published"))),
+        db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(likes)
+          .where(inArray(likes.fanworkId, authored)),
+        db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(comments)
+          .where(and(inArray(comments.fanworkId, authored), publicComment)),
+        db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(bookmarks)
+          .where(inArray(bookmarks.fanworkId, authored)),
+        db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(follows)
+          .where(eq(follows.followingId, userId)),
+        db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(follows)
+          .where(eq(follows.followerId, userId)),
+      ]);
+
+    return {
+      artworks: works?.artworks ?? 0,
+      fanfictions: works?.fanfictions ?? 0,
+      likesReceived: likesReceived?.count ?? 0,
+      commentsReceived: commentsReceived?.count ?? 0,
+      bookmarksReceived: bookmarksReceived?.count ?? 0,
+      followers: followers?.count ?? 0,
+      following: following?.count ?? 0,
+    };
+  }
+
   async createUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
-      .insert(users)
-      .values(userData)
-      .returning();
-    return user;
+    return await db.transaction(async (tx) => {
+      const [user] = await tx
+        .insert(users)
+        .values(userData)
+        .returning();
+      await tx.insert(pseuds).values({ userId: user.id, name: user.username, isDefault: true });
+      return user;
+    });
   }
 
   async updateUser(id: number, updates: Partial<UpsertUser>): Promise<User> {
@@ -114,19 +634,205 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserSummaries(ids: number[]): Promise<AuthorSummary[]> {
+    if (ids.length === 0) return [];
+    return db.select(authorSummaryColumns).from(users).where(inArray(users.id, ids));
+  }
+
+  // Pseud operations
+  async getPseuds(userId: number): Promise<PseudWithCount[]> {
+    return db
+      .select({
+        id: pseuds.id,
+        userId: pseuds.userId,
+        name: pseuds.name,
+        description: pseuds.description,
+        isDefault: pseuds.isDefault,
+        createdAt: pseuds.createdAt,
+        workCount: sql<number>`(select count(*)::int from ${fanworks} where ${fanworks.pseudId} = ${pseuds.id} and ${fanworks.isHidden} = false and ${fanworks.status} = 'published')`,
+      })
+      .from(pseuds)
+      .where(eq(pseuds.userId, userId))
+      .orderBy(desc(pseuds.isDefault), pseuds.name);
+  }
+
+  async getPseud(id: number): Promise<Pseud | undefined> {
+    const [pseud] = await db.select().from(pseuds).where(eq(pseuds.id, id));
+    return pseud || undefined;
+  }
+
+  // Accounts created before pseuds existed get their default one here, either
+  // from the startup backfill or the first time they post
+  async getDefaultPseud(userId: number): Promise<Pseud> {
+    const [existing] = await db
+      .select()
+      .from(pseuds)
+      .where(and(eq(pseuds.userId, userId), eq(pseuds.isDefault, true)));
+    if (existing) return existing;
+
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new Error(`User ${userId} not found`);
+    }
+    const [pseud] = await db
+      .insert(pseuds)
+      .values({ userId, name: user.username, isDefault: true })
+      .onConflictDoUpdate({ target: [pseuds.userId, pseuds.name], set: { isDefault: true } })
+      .returning();
+
+    // Credit the account's earlier works to the new default pseud
+    await db
+      .update(fanworks)
+      .set({ pseudId: pseud.id })
+      .where(and(eq(fanworks.authorId, userId), isNull(fanworks.pseudId)));
+    return pseud;
+  }
+
+  async createPseud(userId: number, pseud: InsertPseud): Promise<Pseud> {
+    const [created] = await db
+      .insert(pseuds)
+      .values({ ...pseud, userId })
+      .returning();
+    return created;
+  }
+
+  async updatePseud(id: number, pseud: Partial<InsertPseud>): Promise<Pseud> {
+    const [updated] = await db
+      .update(pseuds)
+      .set(pseud)
+      .where(eq(pseuds.id, id))
+      .returning();
+    return updated;
+  }
+
+  async setDefaultPseud(userId: number, pseudId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(pseuds)
+        .set({ isDefault: false })
+        .where(eq(pseuds.userId, userId));
+      await tx
+        .update(pseuds)
+        .set({ isDefault: true })
+        .where(and(eq(pseuds.id, pseudId), eq(pseuds.userId, userId)));
+    });
+  }
+
+  // Run at startup so that reads never have to create a pseud. Returns how many
+  // accounts were given one.
+  async backfillDefaultPseuds(): Promise<number> {
+    const missing = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(notExists(
+        db
+          .select({ id: pseuds.id })
+          .from(pseuds)
+          .where(and(eq(pseuds.userId, users.id), eq(pseuds.isDefault, true))),
+      ));
+    for (const user of missing) {
+      await this.getDefaultPseud(user.id);
+    }
+    return missing.length;
+  }
+
+  // Works credited to a removed pseud move to the account's default pseud
+  async deletePseud(pseud: Pseud): Promise<void> {
+    const fallback = await this.getDefaultPseud(pseud.userId);
+    await db.transaction(async (tx) => {
+      await tx
+        .update(fanworks)
+        .set({ pseudId: fallback.id })
+        .where(eq(fanworks.pseudId, pseud.id));
+      await tx.delete(pseuds).where(eq(pseuds.id, pseud.id));
+    });
+  }
+
   // Fanwork operations
-  async getFanworks(filters?: {
-    type?: string[];
-    rating?: string[];
-    tags?: string[];
-    search?: string;
-    authorId?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<Fanwork[]> {
-    let query = db.select().from(fanworks);
-
-    const conditions = [];
+  async getFanworks(filters?: FanworkFilters): Promise<FanworkPage<FanworkListItem>> {
+    const sortBy = filters?.sortBy === "relevance" && !filters.search ? "latest" : (filters?.sortBy ?? "latest");
+    const limit = filters?.limit || 20;
+    const cursor = filters?.cursor ? decodeFanworkCursor(filters.cursor, sortBy) : undefined;
+
+    // Everything is measured against the moment the first page was served, so
+    // works posted while someone is paging don't shift later pages.
+    const asOf = cursor ? sql`${cursor.asOf}::timestamp` : sql`localtimestamp`;
+    const score = this.fanworkSortScore(sortBy, asOf, filters?.search);
+
+    const conditions = [
+      ...this.fanworkConditions(filters),
+      lte(fanworkListedAt, asOf),
+    ];
+
+    const pageConditions = [...conditions];
+    if (cursor) {
+      pageConditions.push(
+        score
+          ? sql`(${score}, ${fanworkListedAt}, ${fanworks.id}) < (${cursor.score}, ${cursor.listedAt}::timestamp, ${cursor.id})`
+          : sql`(${fanworkListedAt}, ${fanworks.id}) < (${cursor.listedAt}::timestamp, ${cursor.id})`,
+      );
+    }
+
+    const rows = await db
+      .select({
+        fanwork: fanworks,
+        score: score ? sql<number>`${score}` : sql<null>`null`,
+        // Selected as text so the cursor keeps full microsecond precision
+        listedAtKey: sql<string>`${fanworkListedAt}::text`,
+        asOf: sql<string>`${asOf}::text`,
+      })
+      .from(fanworks)
+      .where(and(...pageConditions))
+      .orderBy(...(score ? [desc(score)] : []), desc(fanworkListedAt), desc(fanworks.id))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+    const nextCursor = hasMore && last
+      ? encodeFanworkCursor({
+          sortBy,
+          score: last.score,
+          listedAt: last.listedAtKey,
+          id: last.fanwork.id,
+          asOf: last.asOf,
+        })
+      : null;
+
+    let totalCount: number | undefined;
+    if (filters?.includeTotal) {
+      const [{ count }] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(fanworks)
+        .where(and(...conditions));
+      totalCount = count;
+    }
+
+    const items: FanworkListItem[] = pageRows.map(row => row.fanwork);
+
+    if (filters?.search && items.length > 0) {
+      // Snippets are only computed for the page being returned
+      const headlines = await db
+        .select({
+          fanworkId: fanworkSearch.fanworkId,
+          headline: sql<string>`ts_headline('english', coalesce(${fanworkSearch.body}, ''), ${toSearchQuery(filters.search)}, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10')`,
+        })
+        .from(fanworkSearch)
+        .where(inArray(fanworkSearch.fanworkId, items.map(fanwork => fanwork.id)));
+
+      items.forEach(fanwork => {
+        fanwork.searchHeadline = headlines.find(h => h.fanworkId === fanwork.id)?.headline;
+      });
+    }
+
+    return { items, nextCursor, totalCount };
+  }
+
+  private fanworkConditions(filters?: FanworkFilters): SQL[] {
+    const conditions: SQL[] = [
+      visibleFanworks(filters?.viewerId),
+      ...contentFilterConditions(filters?.contentFilters),
+    ];
 
     if (filters?.type?.length) {
       conditions.push(inArray(fanworks.type, filters.type));
@@ -134,25 +840,91 @@ export class DatabaseStorage implements IStorage {
     if (filters?.rating?.length) {
       conditions.push(inArray(fanworks.rating, filters.rating));
     }
+    if (filters?.excludeWarnings?.length) {
+      conditions.push(not(arrayOverlaps(fanworks.warnings, filters.excludeWarnings as ArchiveWarning[])));
+    }
+    if (filters?.categories?.length) {
+      conditions.push(arrayOverlaps(fanworks.categories, filters.categories as FanworkCategory[]));
+    }
     if (filters?.search) {
       conditions.push(
-        sql`${fanworks.title} ILIKE ${`%${filters.search}%`} OR ${fanworks.description} ILIKE ${`%${filters.search}%`}`
+        inArray(
+          fanworks.id,
+          db
+            .select({ fanworkId: fanworkSearch.fanworkId })
+            .from(fanworkSearch)
+            .where(sql`${fanworkSearch.document} @@ ${toSearchQuery(filters.search)}`),
+        ),
       );
     }
     if (filters?.authorId) {
-      conditions.push(eq(fanworks.authorId, parseInt(filters.authorId)));
+      const authorId = parseInt(filters.authorId);
+      // An author's works include the ones they accepted a co-creator credit on
+      conditions.push(or(
+        eq(fanworks.authorId, authorId),
+        inArray(
+          fanworks.id,
+          db
+            .select({ id: fanworkCreators.fanworkId })
+            .from(fanworkCreators)
+            .where(and(eq(fanworkCreators.userId, authorId), eq(fanworkCreators.status, "accepted"))),
+        ),
+      )!);
+    }
+    if (filters?.pseudId) {
+      conditions.push(eq(fanworks.pseudId, filters.pseudId));
     }
+    if (filters?.tags?.length) {
+      const names = filters.tags.map(name => name.trim().toLowerCase());
+      const tagged = db
+        .select({ fanworkId: fanworkTags.fanworkId })
+        .from(fanworkTags)
+        .innerJoin(tags, eq(fanworkTags.tagId, tags.id))
+        .where(inArray(sql`lower(${tags.name})`, names));
 
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+      conditions.push(
+        filters.tagMode === "any"
+          ? inArray(fanworks.id, tagged)
+          : inArray(
+              fanworks.id,
+              tagged
+                .groupBy(fanworkTags.fanworkId)
+                .having(sql`count(distinct ${tags.id}) = ${new Set(names).size}`),
+            ),
+      );
+    }
+    if (filters?.excludeTags?.length) {
+      conditions.push(notInArray(fanworks.id, fanworksTaggedWith(filters.excludeTags)));
     }
 
-    const result = await query
-      .orderBy(desc(fanworks.createdAt))
-      .limit(filters?.limit || 20)
-      .offset(filters?.offset || 0);
+    return conditions;
+  }
+
+  // Returns the primary sort expression, or null when works are simply
+  // newest-first. Scores are float8 so they survive the cursor round trip.
+  private fanworkSortScore(sortBy: FanworkSort, asOf: SQL, search?: string): SQL | null {
+    const likeCount = sql`(select count(*) from ${likes} where ${likes.fanworkId} = ${fanworks.id})`;
+    const bookmarkCount = sql`(select count(*) from ${bookmarks} where ${bookmarks.fanworkId} = ${fanworks.id})`;
+    const commentCount = sql`(select count(*) from ${comments} where ${comments.fanworkId} = ${fanworks.id} and ${publicComment})`;
 
-    return result;
+    switch (sortBy) {
+      case "relevance":
+        if (!search) return null;
+        return sql`coalesce((select ts_rank_cd(${fanworkSearch.document}, ${toSearchQuery(search)}) from ${fanworkSearch} where ${fanworkSearch.fanworkId} = ${fanworks.id}), 0)::float8`;
+      case "popular":
+        return sql`${likeCount}::float8`;
+      case "favorited":
+        return sql`${bookmarkCount}::float8`;
+      case "commented":
+        return sql`${commentCount}::float8`;
+      case "trending": {
+        // Engagement score with gravity so that new activity outranks old totals
+        const ageInHours = sql`greatest(extract(epoch from (${asOf} - ${fanworkListedAt})) / 3600, 0)`;
+        return sql`((${likeCount} + 2 * ${bookmarkCount} + ${commentCount}) / power(${ageInHours} + 2, 1.5))::float8`;
+      }
+      default:
+        return null;
+    }
   }
 
   async getFanwork(id: number): Promise<Fanwork | undefined> {
@@ -160,41 +932,567 @@ export class DatabaseStorage implements IStorage {
     return fanwork || undefined;
   }
 
+  async getFanworkByContentUrl(contentUrl: string): Promise<Pick<Fanwork, "id" | "rating"> | undefined> {
+    const [fanwork] = await db
+      .select({ id: fanworks.id, rating: fanworks.rating })
+      .from(fanworks)
+      .where(eq(fanworks.contentUrl, contentUrl));
+    return fanwork || undefined;
+  }
+
   async createFanwork(fanwork: InsertFanwork): Promise<Fanwork> {
-    const [created] = await db.insert(fanworks).values(fanwork).returning();
+    const pseudId = fanwork.pseudId ?? (await this.getDefaultPseud(fanwork.authorId)).id;
+    const status = fanwork.status ?? "published";
+    const publishAt = status === "scheduled" ? fanwork.publishAt : null;
+    const publishedAt = status === "published" ? new Date() : null;
+    const [created] = await db
+      .insert(fanworks)
+      .values({ ...fanwork, pseudId, status, publishAt, publishedAt })
+      .returning();
+    const withStats = await this.refreshChapterStats(created.id);
+    await this.refreshSearchIndex(created.id);
+    return withStats;
+  }
+
+  // Ratings used to be free text. Run at startup: known ratings are lowercased
+  // and anything else becomes explicit, so it stays behind the age gate.
+  // Returns how many works were changed.
+  async normalizeFanworkRatings(): Promise<number> {
+    const normalized = sql`lower(trim(${fanworks.rating}))`;
+    const updated = await db
+      .update(fanworks)
+      .set({
+        rating: sql`case when ${inArray(normalized, [...fanworkRatings])} then ${normalized} else 'explicit' end`,
+      })
+      .where(notInArray(fanworks.rating, [...fanworkRatings]))
+      .returning({ id: fanworks.id });
+    return updated.length;
+  }
+
+  // Edits that change the title, description or text first keep the old
+  // version as a revision
+  async updateFanwork(id: number, fanwork: Partial<InsertFanwork>, editedBy?: number): Promise<Fanwork> {
+    const existing = await this.getFanwork(id);
+    const textChanged = !!existing && (
+      (fanwork.title !== undefined && fanwork.title !== existing.title) ||
+      (fanwork.description !== undefined && fanwork.description !== existing.description) ||
+      (fanwork.textContent !== undefined && fanwork.textContent !== existing.textContent)
+    );
+    const updated = await db.transaction(async (tx) => {
+      if (existing && textChanged) {
+        await recordRevision(tx, existing, editedBy);
+      }
+      const [row] = await tx
+        .update(fanworks)
+        .set({ ...fanwork, updatedAt: new Date() })
+        .where(eq(fanworks.id, id))
+        .returning();
+      return row;
+    });
+
+    await this.refreshSearchIndex(id);
+    if (fanwork.textContent !== undefined || fanwork.expectedChapters !== undefined) {
+      return await this.refreshChapterStats(id);
+    }
+    return updated;
+  }
+
+  // Returns the work if it went live, or undefined if it was already published
+  async publishFanwork(id: number): Promise<Fanwork | undefined> {
+    const now = new Date();
+    const [published] = await db
+      .update(fanworks)
+      .set({ status: "published", publishedAt: now, updatedAt: now })
+      .where(and(eq(fanworks.id, id), ne(fanworks.status, "published")))
+      .returning();
+    return published || undefined;
+  }
+
+  async publishDueFanworks(): Promise<Fanwork[]> {
+    const now = new Date();
+    return db
+      .update(fanworks)
+      .set({ status: "published", publishedAt: now, updatedAt: now })
+      .where(and(eq(fanworks.status, "scheduled"), lte(fanworks.publishAt, now)))
+      .returning();
+  }
+
+  // Works published before publishedAt existed had their createdAt reset on
+  // publication, so that is when they went live. Run at startup; returns how
+  // many works were filled in.
+  async backfillPublishedAt(): Promise<number> {
+    const updated = await db
+      .update(fanworks)
+      .set({ publishedAt: sql`${fanworks.createdAt}` })
+      .where(and(eq(fanworks.status, "published"), isNull(fanworks.publishedAt)))
+      .returning({ id: fanworks.id });
+    return updated.length;
+  }
+
+  async deleteFanwork(id: number): Promise<void> {
+    await db.delete(fanworks).where(eq(fanworks.id, id));
+  }
+
+  async getFanworkRevisions(fanworkId: number): Promise<FanworkRevisionSummary[]> {
+    return db
+      .select({
+        id: fanworkRevisions.id,
+        title: fanworkRevisions.title,
+        createdAt: fanworkRevisions.createdAt,
+        wordCount: sql<number>`coalesce(array_length(regexp_split_to_array(nullif(trim(${fanworkRevisions.textContent}), ''), '\\s+'), 1), 0)`,
+        editor: authorSummaryColumns,
+      })
+      .from(fanworkRevisions)
+      .leftJoin(users, eq(fanworkRevisions.editedBy, users.id))
+      .where(eq(fanworkRevisions.fanworkId, fanworkId))
+      .orderBy(desc(fanworkRevisions.createdAt), desc(fanworkRevisions.id));
+  }
+
+  async getFanworkRevision(id: number): Promise<FanworkRevision | undefined> {
+    const [revision] = await db.select().from(fanworkRevisions).where(eq(fanworkRevisions.id, id));
+    return revision || undefined;
+  }
+
+  // Restoring is itself an edit, so the version it replaces becomes a revision
+  // too. A revision without any text (e.g. one taken before chapters were kept)
+  // leaves the current text alone.
+  async restoreFanworkRevision(fanwork: Fanwork, revision: FanworkRevision, editedBy: number): Promise<Fanwork> {
+    const restoresText = revision.chapters !== null || revision.textContent !== null;
+
+    await db.transaction(async (tx) => {
+      await recordRevision(tx, fanwork, editedBy);
+      await tx
+        .update(fanworks)
+        .set({
+          title: revision.title,
+          description: revision.description,
+          ...(restoresText ? { textContent: revision.chapters ? null : revision.textContent } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(fanworks.id, fanwork.id));
+
+      if (restoresText) {
+        await tx.delete(chapters).where(eq(chapters.fanworkId, fanwork.id));
+        if (revision.chapters?.length) {
+          await tx.insert(chapters).values(revision.chapters.map((chapter, index) => ({
+            ...chapter,
+            fanworkId: fanwork.id,
+            position: index + 1,
+            wordCount: countWords(chapter.content),
+          })));
+        }
+      }
+    });
+
+    await this.refreshSearchIndex(fanwork.id);
+    return await this.refreshChapterStats(fanwork.id);
+  }
+
+  // Title ranks above tags, tags above the description, and the story text last
+  async refreshSearchIndex(fanworkId: number): Promise<void> {
+    const fanwork = await this.getFanwork(fanworkId);
+    if (!fanwork) return;
+
+    const tagNames = (await this.getFanworkTags(fanworkId)).map(tag => tag.name).join(" ");
+    const chapterText = (await this.getChapters(fanworkId))
+      .map(chapter => [chapter.title, chapter.content].filter(Boolean).join("\n"))
+      .join("\n\n");
+    const storyText = [fanwork.textContent, chapterText].filter(Boolean).join("\n\n");
+
+    const document = sql`setweight(to_tsvector('english', ${fanwork.title}), 'A')
+      || setweight(to_tsvector('english', ${tagNames}), 'B')
+      || setweight(to_tsvector('english', ${fanwork.description ?? ""}), 'C')
+      || setweight(to_tsvector('english', ${storyText}), 'D')`;
+    const body = escapeHtml([fanwork.description, storyText].filter(Boolean).join("\n\n"));
+
+    await db
+      .insert(fanworkSearch)
+      .values({ fanworkId, document, body })
+      .onConflictDoUpdate({
+        target: fanworkSearch.fanworkId,
+        set: { document, body, updatedAt: new Date() },
+      });
+  }
+
+  async reindexAllFanworks(): Promise<number> {
+    const all = await db.select({ id: fanworks.id }).from(fanworks);
+    for (const { id } of all) {
+      await this.refreshSearchIndex(id);
+    }
+    return all.length;
+  }
+
+  // Chapter operations
+  async getChapters(fanworkId: number): Promise<Chapter[]> {
+    return await db
+      .select()
+      .from(chapters)
+      .where(eq(chapters.fanworkId, fanworkId))
+      .orderBy(chapters.position);
+  }
+
+  async getChapter(id: number): Promise<Chapter | undefined> {
+    const [chapter] = await db.select().from(chapters).where(eq(chapters.id, id));
+    return chapter || undefined;
+  }
+
+  // Chapter changes lock the work's row first, so concurrent edits can't hand
+  // out the same position twice or leave a reorder half applied
+  async createChapter(chapter: InsertChapter): Promise<Chapter> {
+    const created = await db.transaction(async (tx) => {
+      const fanwork = await lockFanwork(tx, chapter.fanworkId);
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(chapters)
+        .where(eq(chapters.fanworkId, chapter.fanworkId));
+      let position = count + 1;
+
+      // A oneshot keeps its text on the fanwork itself; once a second chapter
+      // arrives that text is promoted to chapter 1 so it lives in one place.
+      if (count === 0 && fanwork?.textContent) {
+        await tx.insert(chapters).values({
+          fanworkId: fanwork.id,
+          position: 1,
+          content: fanwork.textContent,
+          wordCount: countWords(fanwork.textContent),
+        });
+        await tx
+          .update(fanworks)
+          .set({ textContent: null })
+          .where(eq(fanworks.id, fanwork.id));
+        position = 2;
+      }
+
+      const [row] = await tx
+        .insert(chapters)
+        .values({ ...chapter, position, wordCount: countWords(chapter.content) })
+        .returning();
+      return row;
+    });
+
+    await this.refreshChapterStats(chapter.fanworkId);
+    await this.refreshSearchIndex(chapter.fanworkId);
     return created;
   }
 
-  async updateFanwork(id: number, fanwork: Partial<InsertFanwork>): Promise<Fanwork> {
+  // Text edits keep the work as it was as a revision, chapters and all
+  async updateChapter(id: number, chapter: Partial<InsertChapter> & { position?: number }, editedBy?: number): Promise<Chapter> {
+    const existing = await this.getChapter(id);
+    if (!existing) {
+      throw new Error(`Chapter ${id} not found`);
+    }
+
+    const { position, ...data } = chapter;
+
+    const updated = await db.transaction(async (tx) => {
+      const fanwork = await lockFanwork(tx, existing.fanworkId);
+      // Read again under the lock, in case another edit moved it meanwhile
+      const [current] = await tx.select().from(chapters).where(eq(chapters.id, id));
+      if (!current) {
+        throw new Error(`Chapter ${id} not found`);
+      }
+
+      const textChanged = (["title", "summary", "notes", "endNotes", "content"] as const)
+        .some(key => data[key] !== undefined && data[key] !== current[key]);
+      if (fanwork && textChanged) {
+        await recordRevision(tx, fanwork, editedBy);
+      }
+
+      if (position !== undefined && position !== current.position) {
+        const [{ count }] = await tx
+          .select({ count: sql<number>`count(*)::int` })
+          .from(chapters)
+          .where(eq(chapters.fanworkId, current.fanworkId));
+        const target = Math.min(Math.max(position, 1), count);
+
+        // Shift the chapters between the old and new slot to close the gap
+        if (target < current.position) {
+          await tx
+            .update(chapters)
+            .set({ position: sql`${chapters.position} + 1` })
+            .where(and(
+              eq(chapters.fanworkId, current.fanworkId),
+              gte(chapters.position, target),
+              lt(chapters.position, current.position),
+            ));
+        } else if (target > current.position) {
+          await tx
+            .update(chapters)
+            .set({ position: sql`${chapters.position} - 1` })
+            .where(and(
+              eq(chapters.fanworkId, current.fanworkId),
+              gt(chapters.position, current.position),
+              lte(chapters.position, target),
+            ));
+        }
+        await tx.update(chapters).set({ position: target }).where(eq(chapters.id, id));
+      }
+
+      const [row] = await tx
+        .update(chapters)
+        .set({
+          ...data,
+          ...(data.content !== undefined ? { wordCount: countWords(data.content) } : {}),
+          fanworkId: current.fanworkId,
+          updatedAt: new Date(),
+        })
+        .where(eq(chapters.id, id))
+        .returning();
+      return row;
+    });
+
+    await this.refreshChapterStats(existing.fanworkId);
+    await this.refreshSearchIndex(existing.fanworkId);
+    return updated;
+  }
+
+  // The deleted chapter's text stays restorable through a revision
+  async deleteChapter(id: number, editedBy?: number): Promise<void> {
+    const chapter = await this.getChapter(id);
+    if (!chapter) return;
+
+    const deleted = await db.transaction(async (tx) => {
+      const fanwork = await lockFanwork(tx, chapter.fanworkId);
+      if (!fanwork) return undefined;
+      await recordRevision(tx, fanwork, editedBy);
+      const [row] = await tx.delete(chapters).where(eq(chapters.id, id)).returning();
+      if (!row) return undefined;
+      await tx
+        .update(chapters)
+        .set({ position: sql`${chapters.position} - 1` })
+        .where(and(eq(chapters.fanworkId, row.fanworkId), gt(chapters.position, row.position)));
+      return row;
+    });
+    if (!deleted) return;
+
+    await this.refreshChapterStats(deleted.fanworkId);
+    await this.refreshSearchIndex(deleted.fanworkId);
+  }
+
+  // Chapter count, word count and completion are always derived here rather
+  // than trusted from the client.
+  async refreshChapterStats(fanworkId: number): Promise<Fanwork> {
+    const fanwork = await this.getFanwork(fanworkId);
+    if (!fanwork) {
+      throw new Error(`Fanwork ${fanworkId} not found`);
+    }
+
+    const [stats] = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        words: sql<number>`coalesce(sum(${chapters.wordCount}), 0)::int`,
+      })
+      .from(chapters)
+      .where(eq(chapters.fanworkId, fanworkId));
+
+    const hasChapters = stats.count > 0;
+    const chapterCount = hasChapters ? stats.count : (fanwork.textContent ? 1 : 0);
+    const wordCount = hasChapters ? stats.words : countWords(fanwork.textContent);
+    const isComplete = fanwork.expectedChapters !== null
+      && chapterCount > 0
+      && chapterCount >= fanwork.expectedChapters;
+
     const [updated] = await db
       .update(fanworks)
-      .set({ ...fanwork, updatedAt: new Date() })
-      .where(eq(fanworks.id, id))
+      // Chapter changes count as activity on the work, e.g. for followers' feeds
+      .set({ chapterCount, wordCount, isComplete, updatedAt: new Date() })
+      .where(eq(fanworks.id, fanworkId))
       .returning();
     return updated;
   }
 
-  async deleteFanwork(id: number): Promise<void> {
-    await db.delete(fanworks).where(eq(fanworks.id, id));
+  // Series operations
+  async getAllSeries(filters?: { authorId?: number; limit?: number; offset?: number; contentFilters?: ContentFilters }): Promise<Series[]> {
+    const excludeAuthors = filters?.contentFilters?.excludeAuthors ?? [];
+    const query = db
+      .select()
+      .from(series)
+      .where(and(
+        filters?.authorId ? eq(series.authorId, filters.authorId) : undefined,
+        // Series belong to one author, so only the author filter applies here
+        excludeAuthors.length ? notInArray(series.authorId, excludeAuthors) : undefined,
+      ));
+
+    return await query
+      .orderBy(desc(series.updatedAt))
+      .limit(filters?.limit || 20)
+      .offset(filters?.offset || 0);
+  }
+
+  async getSeries(id: number): Promise<Series | undefined> {
+    const [found] = await db.select().from(series).where(eq(series.id, id));
+    return found || undefined;
+  }
+
+  async createSeries(data: InsertSeries): Promise<Series> {
+    const [created] = await db.insert(series).values(data).returning();
+    return created;
+  }
+
+  async updateSeries(id: number, data: Partial<InsertSeries>): Promise<Series> {
+    const [updated] = await db
+      .update(series)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(series.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteSeries(id: number): Promise<void> {
+    await db.delete(series).where(eq(series.id, id));
+  }
+
+  async getSeriesWorks(seriesId: number, options?: { publishedOnly?: boolean; contentFilters?: ContentFilters }): Promise<(Fanwork & { position: number })[]> {
+    const result = await db
+      .select({ fanwork: fanworks, position: seriesWorks.position })
+      .from(seriesWorks)
+      .innerJoin(fanworks, eq(seriesWorks.fanworkId, fanworks.id))
+      .where(and(
+        eq(seriesWorks.seriesId, seriesId),
+        options?.publishedOnly ? eq(fanworks.status, "published") : undefined,
+        ...contentFilterConditions(options?.contentFilters),
+      ))
+      .orderBy(seriesWorks.position);
+
+    return result.map(r => ({ ...r.fanwork, position: r.position }));
+  }
+
+  // Changes to a series' parts lock the series row first, so concurrent edits
+  // can't hand out the same position twice
+  async addFanworkToSeries(seriesId: number, fanworkId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.select({ id: series.id }).from(series).where(eq(series.id, seriesId)).for("update");
+
+      const [{ last }] = await tx
+        .select({ last: sql<number>`coalesce(max(${seriesWorks.position}), 0)::int` })
+        .from(seriesWorks)
+        .where(eq(seriesWorks.seriesId, seriesId));
+
+      const [added] = await tx
+        .insert(seriesWorks)
+        .values({ seriesId, fanworkId, position: last + 1 })
+        .onConflictDoNothing()
+        .returning();
+      if (added) {
+        await tx.update(series).set({ updatedAt: new Date() }).where(eq(series.id, seriesId));
+      }
+    });
+  }
+
+  async removeFanworkFromSeries(seriesId: number, fanworkId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.select({ id: series.id }).from(series).where(eq(series.id, seriesId)).for("update");
+
+      const [removed] = await tx
+        .delete(seriesWorks)
+        .where(and(eq(seriesWorks.seriesId, seriesId), eq(seriesWorks.fanworkId, fanworkId)))
+        .returning();
+
+      if (!removed) return;
+
+      await tx
+        .update(seriesWorks)
+        .set({ position: sql`${seriesWorks.position} - 1` })
+        .where(and(eq(seriesWorks.seriesId, seriesId), gt(seriesWorks.position, removed.position)));
+    });
+  }
+
+  async reorderSeriesWorks(seriesId: number, fanworkIds: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.select({ id: series.id }).from(series).where(eq(series.id, seriesId)).for("update");
+
+      // Works missing from fanworkIds keep their relative order after the listed ones
+      const current = await tx
+        .select()
+        .from(seriesWorks)
+        .where(eq(seriesWorks.seriesId, seriesId))
+        .orderBy(seriesWorks.position);
+
+      const listed = fanworkIds.filter(id => current.some(entry => entry.fanworkId === id));
+      const rest = current.map(entry => entry.fanworkId).filter(id => !listed.includes(id));
+      const ordered = [...listed, ...rest];
+
+      for (let index = 0; index < ordered.length; index++) {
+        await tx
+          .update(seriesWorks)
+          .set({ position: index + 1 })
+          .where(and(eq(seriesWorks.seriesId, seriesId), eq(seriesWorks.fanworkId, ordered[index])));
+      }
+    });
+  }
+
+  async getSeriesNavigation(fanworkId: number, options?: { viewerId?: number; contentFilters?: ContentFilters }): Promise<SeriesNavigation[]> {
+    const memberships = await db
+      .select({ series, position: seriesWorks.position })
+      .from(seriesWorks)
+      .innerJoin(series, eq(seriesWorks.seriesId, series.id))
+      .where(eq(seriesWorks.fanworkId, fanworkId));
+
+    const navigation: SeriesNavigation[] = [];
+    for (const { series: entry, position } of memberships) {
+      const parts = await db
+        .select({ id: fanworks.id, title: fanworks.title, position: seriesWorks.position })
+        .from(seriesWorks)
+        .innerJoin(fanworks, eq(seriesWorks.fanworkId, fanworks.id))
+        // Parts the viewer couldn't open or has filtered out are skipped, apart
+        // from the work being navigated from
+        .where(and(
+          eq(seriesWorks.seriesId, entry.id),
+          or(
+            and(
+              visibleFanworks(options?.viewerId),
+              eq(fanworks.isHidden, false),
+              ...contentFilterConditions(options?.contentFilters),
+            ),
+            eq(fanworks.id, fanworkId),
+          ),
+        ))
+        .orderBy(seriesWorks.position);
+
+      const index = parts.findIndex(part => part.position === position);
+      const previous = index > 0 ? parts[index - 1] : null;
+      const next = index >= 0 && index < parts.length - 1 ? parts[index + 1] : null;
+
+      navigation.push({
+        series: entry,
+        position,
+        partCount: parts.length,
+        previous: previous && { id: previous.id, title: previous.title },
+        next: next && { id: next.id, title: next.title },
+      });
+    }
+
+    return navigation;
   }
 
   async getTags(): Promise<Tag[]> {
     return await db.select().from(tags).orderBy(tags.name);
   }
 
+  // Tags are stored trimmed and lowercased, the same form filters match them
+  // in; tags saved before that still match whatever their case
   async getOrCreateTag(name: string): Promise<Tag> {
-    const [existing] = await db.select().from(tags).where(eq(tags.name, name));
-    
+    const normalized = name.trim().toLowerCase();
+    const findTag = () =>
+      db.select().from(tags).where(eq(sql`lower(${tags.name})`, normalized)).orderBy(tags.id).limit(1);
+
+    const [existing] = await findTag();
     if (existing) {
       return existing;
     }
 
-    const [created] = await db.insert(tags).values({ name }).returning();
-    return created;
+    const [created] = await db.insert(tags).values({ name: normalized }).onConflictDoNothing().returning();
+    if (created) {
+      return created;
+    }
+    // Someone else created it in the meantime
+    const [raced] = await findTag();
+    return raced;
   }
 
   async addTagsToFanwork(fanworkId: number, tagNames: string[]): Promise<void> {
     for (const tagName of tagNames) {
+      if (!tagName.trim()) continue;
       const tag = await this.getOrCreateTag(tagName);
       
       // Check if relationship already exists
@@ -210,6 +1508,13 @@ export class DatabaseStorage implements IStorage {
         });
       }
     }
+
+    await this.refreshSearchIndex(fanworkId);
+  }
+
+  async setFanworkTags(fanworkId: number, tagNames: string[]): Promise<void> {
+    await db.delete(fanworkTags).where(eq(fanworkTags.fanworkId, fanworkId));
+    await this.addTagsToFanwork(fanworkId, tagNames);
   }
 
   async getFanworkTags(fanworkId: number): Promise<Tag[]> {
@@ -257,6 +1562,55 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async setBookmarkPrivacy(userId: number, fanworkId: number, isPrivate: boolean): Promise<boolean> {
+    const updated = await db
+      .update(bookmarks)
+      .set({ isPrivate })
+      .where(and(eq(bookmarks.userId, userId), eq(bookmarks.fanworkId, fanworkId)))
+      .returning({ id: bookmarks.id });
+    return updated.length > 0;
+  }
+
+  // Most recently bookmarked first
+  async getUserBookmarks(userId: number, filters?: BookmarkFilters): Promise<FanworkPage<Fanwork>> {
+    const limit = filters?.limit || 20;
+    const cursor = filters?.cursor ? decodeTimestampCursor(filters.cursor) : undefined;
+
+    const conditions: SQL[] = [
+      eq(bookmarks.userId, userId),
+      eq(fanworks.isHidden, false),
+      eq(fanworks.status, "published"),
+      ...contentFilterConditions(filters?.contentFilters),
+    ];
+    if (!filters?.includePrivate) {
+      conditions.push(eq(bookmarks.isPrivate, false));
+    }
+    if (cursor) {
+      conditions.push(sql`(${bookmarks.createdAt}, ${bookmarks.id}) < (${cursor.at}::timestamp, ${cursor.id})`);
+    }
+
+    const rows = await db
+      .select({
+        fanwork: fanworks,
+        bookmarkId: bookmarks.id,
+        createdAtKey: sql<string>`${bookmarks.createdAt}::text`,
+      })
+      .from(bookmarks)
+      .innerJoin(fanworks, eq(bookmarks.fanworkId, fanworks.id))
+      .where(and(...conditions))
+      .orderBy(desc(bookmarks.createdAt), desc(bookmarks.id))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+    const nextCursor = hasMore && last
+      ? encodeTimestampCursor({ at: last.createdAtKey, id: last.bookmarkId })
+      : null;
+
+    return { items: pageRows.map(row => row.fanwork), nextCursor };
+  }
+
   async isLiked(userId: number, fanworkId: number): Promise<boolean> {
     const [existing] = await db
       .select()
@@ -273,11 +1627,7 @@ export class DatabaseStorage implements IStorage {
     return !!existing;
   }
 
-  async getFanworkCounts(fanworkId: number): Promise<{
-    likes: number;
-    comments: number;
-    bookmarks: number;
-  }> {
+  async getFanworkCounts(fanworkId: number): Promise<FanworkCounts> {
     const [likesCount] = await db
       .select({ count: sql<number>`count(*)` })
       .from(likes)
@@ -286,7 +1636,7 @@ export class DatabaseStorage implements IStorage {
     const [commentsCount] = await db
       .select({ count: sql<number>`count(*)` })
       .from(comments)
-      .where(eq(comments.fanworkId, fanworkId));
+      .where(and(eq(comments.fanworkId, fanworkId), publicComment));
 
     const [bookmarksCount] = await db
       .select({ count: sql<number>`count(*)` })
@@ -300,23 +1650,710 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getComments(fanworkId: number): Promise<Comment[]> {
-    return await db
-      .select()
+  // Loads authors, tags, counts and viewer state for a whole page of works in a
+  // fixed number of queries, however many works there are.
+  async enrichFanworks<T extends Fanwork>(items: T[], viewerId?: number): Promise<EnrichedFanwork<T>[]> {
+    if (items.length === 0) return [];
+
+    const fanworkIds = items.map(item => item.id);
+    const authorIds = Array.from(new Set(items.map(item => item.authorId)));
+    const pseudIds = Array.from(new Set(items.flatMap(item => (item.pseudId ? [item.pseudId] : []))));
+
+    const [
+      authors,
+      pseudRows,
+      creatorRows,
+      giftRows,
+      tagRows,
+      countRows,
+      likedRows,
+      bookmarkedRows,
+      subscribedRows,
+      followedRows,
+    ] = await Promise.all([
+      db
+        .select({
+          id: users.id,
+          username: users.username,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl,
+        })
+        .from(users)
+        .where(inArray(users.id, authorIds)),
+      pseudIds.length > 0
+        ? db
+            .select({ id: pseuds.id, name: pseuds.name })
+            .from(pseuds)
+            .where(inArray(pseuds.id, pseudIds))
+        : Promise.resolve([]),
+      db
+        .select({
+          fanworkId: fanworkCreators.fanworkId,
+          status: fanworkCreators.status,
+          user: authorSummaryColumns,
+          pseud: { id: pseuds.id, name: pseuds.name },
+        })
+        .from(fanworkCreators)
+        .innerJoin(users, eq(fanworkCreators.userId, users.id))
+        .leftJoin(pseuds, eq(fanworkCreators.pseudId, pseuds.id))
+        .where(inArray(fanworkCreators.fanworkId, fanworkIds))
+        .orderBy(fanworkCreators.acceptedAt),
+      db
+        .select({ fanworkId: fanworkGifts.fanworkId, recipient: authorSummaryColumns })
+        .from(fanworkGifts)
+        .innerJoin(users, eq(fanworkGifts.recipientId, users.id))
+        .where(inArray(fanworkGifts.fanworkId, fanworkIds))
+        .orderBy(users.username),
+      db
+        .select({ fanworkId: fanworkTags.fanworkId, tag: tags })
+        .from(fanworkTags)
+        .innerJoin(tags, eq(fanworkTags.tagId, tags.id))
+        .where(inArray(fanworkTags.fanworkId, fanworkIds))
+        .orderBy(tags.name),
+      db
+        .select({
+          fanworkId: fanworks.id,
+          likes: sql<number>`(select count(*)::int from ${likes} where ${likes.fanworkId} = ${fanworks.id})`,
+          comments: sql<number>`(select count(*)::int from ${comments} where ${comments.fanworkId} = ${fanworks.id} and ${publicComment})`,
+          bookmarks: sql<number>`(select count(*)::int from ${bookmarks} where ${bookmarks.fanworkId} = ${fanworks.id})`,
+        })
+        .from(fanworks)
+        .where(inArray(fanworks.id, fanworkIds)),
+      viewerId
+        ? db
+            .select({ fanworkId: likes.fanworkId })
+            .from(likes)
+            .where(and(eq(likes.userId, viewerId), inArray(likes.fanworkId, fanworkIds)))
+        : Promise.resolve([]),
+      viewerId
+        ? db
+            .select({ fanworkId: bookmarks.fanworkId, isPrivate: bookmarks.isPrivate })
+            .from(bookmarks)
+            .where(and(eq(bookmarks.userId, viewerId), inArray(bookmarks.fanworkId, fanworkIds)))
+        : Promise.resolve([]),
+      viewerId
+        ? db
+            .select({ fanworkId: subscriptions.fanworkId })
+            .from(subscriptions)
+            .where(and(eq(subscriptions.userId, viewerId), inArray(subscriptions.fanworkId, fanworkIds)))
+        : Promise.resolve([]),
+      viewerId
+        ? db
+            .select({ authorId: follows.followingId })
+            .from(follows)
+            .where(and(eq(follows.followerId, viewerId), inArray(follows.followingId, authorIds)))
+        : Promise.resolve([]),
+    ]);
+
+    return items.map(item => {
+      const counts = countRows.find(row => row.fanworkId === item.id);
+      const creators = creatorRows.filter(row => row.fanworkId === item.id);
+      const viewerCredit = creators.find(row => row.user.id === viewerId);
+      const creatorStatus: ViewerCreatorStatus = viewerId && item.authorId === viewerId
+        ? "owner"
+        : (viewerCredit?.status as ViewerCreatorStatus | undefined) ?? null;
+      return {
+        ...item,
+        author: authors.find(author => author.id === item.authorId) ?? null,
+        pseud: pseudRows.find(pseud => pseud.id === item.pseudId) ?? null,
+        coCreators: creators
+          .filter(row => row.status === "accepted")
+          .map(row => ({ user: row.user, pseud: row.pseud })),
+        giftedTo: giftRows.filter(row => row.fanworkId === item.id).map(row => row.recipient),
+        tags: tagRows.filter(row => row.fanworkId === item.id).map(row => row.tag),
+        counts: {
+          likes: counts?.likes ?? 0,
+          comments: counts?.comments ?? 0,
+          bookmarks: counts?.bookmarks ?? 0,
+        },
+        viewer: {
+          isLiked: likedRows.some(row => row.fanworkId === item.id),
+          isBookmarked: bookmarkedRows.some(row => row.fanworkId === item.id),
+          isBookmarkPrivate: bookmarkedRows.some(row => row.fanworkId === item.id && row.isPrivate),
+          isSubscribed: subscribedRows.some(row => row.fanworkId === item.id),
+          isFollowingAuthor: followedRows.some(row => row.authorId === item.authorId),
+          creatorStatus,
+          canEdit: creatorStatus === "owner" || creatorStatus === "accepted",
+        },
+      };
+    });
+  }
+
+  async getComment(id: number): Promise<Comment | undefined> {
+    const [comment] = await db.select().from(comments).where(eq(comments.id, id));
+    return comment;
+  }
+
+  async getComments(fanworkId: number, filters?: CommentFilters): Promise<CommentPage> {
+    const limit = filters?.limit || 20;
+    const cursor = filters?.cursor ? decodeTimestampCursor(filters.cursor) : undefined;
+
+    const visibility = filters?.includePending
+      ? undefined
+      : or(
+          eq(comments.isApproved, true),
+          filters?.viewerId ? eq(comments.userId, filters.viewerId) : undefined,
+        );
+
+    const notMuted = filters?.mutedBy
+      ? or(
+          isNull(comments.userId),
+          notInArray(
+            comments.userId,
+            db.select({ id: userMutes.mutedId }).from(userMutes).where(eq(userMutes.muterId, filters.mutedBy)),
+          ),
+        )
+      : undefined;
+
+    const conditions = [eq(comments.fanworkId, fanworkId), isNull(comments.parentId), visibility, notMuted];
+    if (cursor) {
+      conditions.push(
+        sql`(${comments.createdAt}, ${comments.id}) < (${cursor.at}::timestamp, ${cursor.id})`,
+      );
+    }
+
+    const rows = await db
+      .select({
+        comment: comments,
+        user: authorSummaryColumns,
+        // Selected as text so the cursor keeps full microsecond precision
+        createdAtKey: sql<string>`${comments.createdAt}::text`,
+      })
       .from(comments)
-      .where(eq(comments.fanworkId, fanworkId))
-      .orderBy(desc(comments.createdAt));
+      .leftJoin(users, eq(comments.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(comments.createdAt), desc(comments.id))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+    const nextCursor = hasMore && last
+      ? encodeTimestampCursor({ at: last.createdAtKey, id: last.comment.id })
+      : null;
+
+    // Whole threads for this page in one go, oldest first so conversations read in order
+    const threadIds = pageRows.map(row => row.comment.id);
+    const replyRows = threadIds.length > 0
+      ? await db
+          .select({ comment: comments, user: authorSummaryColumns })
+          .from(comments)
+          .leftJoin(users, eq(comments.userId, users.id))
+          .where(and(inArray(comments.threadId, threadIds), visibility, notMuted))
+          .orderBy(comments.createdAt, comments.id)
+      : [];
+
+    const nodes = new Map<number, CommentThread>();
+    for (const row of [...pageRows, ...replyRows]) {
+      // Deleted comments keep their place in the thread but not their author, or
+      // who removed them; moderators can see both through the revision history
+      const deleted = !!row.comment.deletedAt;
+      nodes.set(row.comment.id, {
+        ...row.comment,
+        userId: deleted ? null : row.comment.userId,
+        deletedBy: null,
+        guestName: deleted ? null : row.comment.guestName,
+        user: deleted ? null : row.user,
+        replyCount: 0,
+        replies: [],
+      });
+    }
+    // Replies whose parent was left out are dropped along with it
+    for (const row of replyRows) {
+      const parent = row.comment.parentId ? nodes.get(row.comment.parentId) : undefined;
+      parent?.replies.push(nodes.get(row.comment.id)!);
+    }
+
+    const countReplies = (node: CommentThread): number => {
+      node.replyCount = node.replies.reduce((total, reply) => total + 1 + countReplies(reply), 0);
+      return node.replyCount;
+    };
+    const items = pageRows.map(row => nodes.get(row.comment.id)!);
+    items.forEach(countReplies);
+
+    let totalCount: number | undefined;
+    if (filters?.includeTotal) {
+      const [{ count }] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(comments)
+        .where(and(eq(comments.fanworkId, fanworkId), isNull(comments.parentId), visibility, notMuted));
+      totalCount = count;
+    }
+
+    return { items, nextCursor, totalCount, maxDepth: COMMENT_MAX_DEPTH };
+  }
+
+  async createComment(comment: InsertComment & { isApproved?: boolean }): Promise<Comment> {
+    const parent = comment.parentId ? await this.getComment(comment.parentId) : undefined;
+    const [created] = await db
+      .insert(comments)
+      .values({
+        ...comment,
+        threadId: parent ? (parent.threadId ?? parent.id) : null,
+        depth: parent ? parent.depth + 1 : 0,
+      })
+      .returning();
+    return created;
+  }
+
+  async updateComment(id: number, content: string, editedBy: number): Promise<Comment> {
+    const existing = await this.getComment(id);
+    if (existing) {
+      await db.insert(commentRevisions).values({ commentId: id, content: existing.content, editedBy });
+    }
+
+    const [updated] = await db
+      .update(comments)
+      .set({ content, editedAt: new Date() })
+      .where(eq(comments.id, id))
+      .returning();
+    return updated;
+  }
+
+  async approveComment(id: number): Promise<Comment> {
+    const [approved] = await db
+      .update(comments)
+      .set({ isApproved: true })
+      .where(eq(comments.id, id))
+      .returning();
+    return approved;
+  }
+
+  // The row stays so replies keep their place in the thread; what it said
+  // survives only in the revision history.
+  async deleteComment(id: number, deletedBy: number): Promise<Comment> {
+    const existing = await this.getComment(id);
+    if (existing?.deletedAt) {
+      return existing;
+    }
+    if (existing) {
+      await db.insert(commentRevisions).values({ commentId: id, content: existing.content, editedBy: deletedBy });
+    }
+
+    const [deleted] = await db
+      .update(comments)
+      .set({ content: "[deleted]", deletedAt: new Date(), deletedBy })
+      .where(eq(comments.id, id))
+      .returning();
+    return deleted;
+  }
+
+  async getCommentRevisions(commentId: number): Promise<CommentRevisionWithEditor[]> {
+    const result = await db
+      .select({ revision: commentRevisions, editor: authorSummaryColumns })
+      .from(commentRevisions)
+      .leftJoin(users, eq(commentRevisions.editedBy, users.id))
+      .where(eq(commentRevisions.commentId, commentId))
+      .orderBy(desc(commentRevisions.createdAt), desc(commentRevisions.id));
+
+    return result.map(r => ({ ...r.revision, editor: r.editor }));
   }
 
-  async createComment(comment: InsertComment): Promise<Comment> {
-    const [created] = await db.insert(comments).values(comment).returning();
+  // Notification operations
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [created] = await db.insert(notifications).values(notification).returning();
     return created;
   }
 
-  async deleteComment(id: number, userId: number): Promise<void> {
+  async getNotification(id: number): Promise<NotificationWithContext | undefined> {
+    const [row] = await this.selectNotifications().where(eq(notifications.id, id));
+    return row ? { ...row.notification, actor: row.actor, fanwork: row.fanwork } : undefined;
+  }
+
+  private selectNotifications() {
+    return db
+      .select({
+        notification: notifications,
+        actor: authorSummaryColumns,
+        fanwork: { id: fanworks.id, title: fanworks.title },
+      })
+      .from(notifications)
+      .leftJoin(users, eq(notifications.actorId, users.id))
+      .leftJoin(fanworks, eq(notifications.fanworkId, fanworks.id))
+      .$dynamic();
+  }
+
+  // Newest first. Ids only ever grow, so the last id on a page is all the cursor needs.
+  async getNotifications(userId: number, filters?: NotificationFilters): Promise<NotificationPage> {
+    const limit = filters?.limit || 20;
+    const before = filters?.cursor ? parseInt(filters.cursor, 10) : undefined;
+    if (before !== undefined && isNaN(before)) {
+      throw new InvalidCursorError();
+    }
+
+    const conditions = [eq(notifications.userId, userId)];
+    if (filters?.unreadOnly) {
+      conditions.push(isNull(notifications.readAt));
+    }
+    if (before !== undefined) {
+      conditions.push(lt(notifications.id, before));
+    }
+
+    const rows = await this.selectNotifications()
+      .where(and(...conditions))
+      .orderBy(desc(notifications.id))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit).map(row => ({ ...row.notification, actor: row.actor, fanwork: row.fanwork }));
+    const nextCursor = hasMore ? String(items[items.length - 1].id) : null;
+
+    return { items, nextCursor };
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return count;
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<void> {
     await db
-      .delete(comments)
-      .where(and(eq(comments.id, id), eq(comments.userId, userId)));
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  // Follow and subscription operations
+  async followUser(followerId: number, followingId: number): Promise<void> {
+    await db.insert(follows).values({ followerId, followingId }).onConflictDoNothing();
+  }
+
+  async unfollowUser(followerId: number, followingId: number): Promise<void> {
+    await db
+      .delete(follows)
+      .where(and(eq(follows.followerId, followerId), eq(follows.followingId, followingId)));
+  }
+
+  async isFollowing(followerId: number, followingId: number): Promise<boolean> {
+    const [follow] = await db
+      .select()
+      .from(follows)
+      .where(and(eq(follows.followerId, followerId), eq(follows.followingId, followingId)));
+    return !!follow;
+  }
+
+  async subscribeToFanwork(userId: number, fanworkId: number): Promise<void> {
+    await db.insert(subscriptions).values({ userId, fanworkId }).onConflictDoNothing();
+  }
+
+  async unsubscribeFromFanwork(userId: number, fanworkId: number): Promise<void> {
+    await db
+      .delete(subscriptions)
+      .where(and(eq(subscriptions.userId, userId), eq(subscriptions.fanworkId, fanworkId)));
+  }
+
+  async subscribeToSeries(userId: number, seriesId: number): Promise<void> {
+    await db.insert(subscriptions).values({ userId, seriesId }).onConflictDoNothing();
+  }
+
+  async unsubscribeFromSeries(userId: number, seriesId: number): Promise<void> {
+    await db
+      .delete(subscriptions)
+      .where(and(eq(subscriptions.userId, userId), eq(subscriptions.seriesId, seriesId)));
+  }
+
+  async isSubscribedToSeries(userId: number, seriesId: number): Promise<boolean> {
+    const [subscription] = await db
+      .select()
+      .from(subscriptions)
+      .where(and(eq(subscriptions.userId, userId), eq(subscriptions.seriesId, seriesId)));
+    return !!subscription;
+  }
+
+  // Works by followed authors, subscribed works and works in subscribed series,
+  // newest first by when they were published.
+  async getFeed(userId: number, filters?: FeedFilters): Promise<FanworkPage<Fanwork>> {
+    const limit = filters?.limit || 20;
+    const cursor = filters?.cursor ? decodeFeedCursor(filters.cursor) : undefined;
+    const asOf = cursor ? sql`${cursor.asOf}::timestamp` : sql`localtimestamp`;
+
+    const conditions: SQL[] = [
+      eq(fanworks.isHidden, false),
+      eq(fanworks.status, "published"),
+      lte(fanworkListedAt, asOf),
+      or(
+        inArray(
+          fanworks.authorId,
+          db.select({ id: follows.followingId }).from(follows).where(eq(follows.followerId, userId)),
+        ),
+        inArray(
+          fanworks.id,
+          db
+            .select({ id: fanworkCreators.fanworkId })
+            .from(fanworkCreators)
+            .innerJoin(follows, eq(follows.followingId, fanworkCreators.userId))
+            .where(and(eq(follows.followerId, userId), eq(fanworkCreators.status, "accepted"))),
+        ),
+        inArray(
+          fanworks.id,
+          db
+            .select({ id: subscriptions.fanworkId })
+            .from(subscriptions)
+            .where(eq(subscriptions.userId, userId)),
+        ),
+        inArray(
+          fanworks.id,
+          db
+            .select({ id: seriesWorks.fanworkId })
+            .from(seriesWorks)
+            .innerJoin(subscriptions, eq(subscriptions.seriesId, seriesWorks.seriesId))
+            .where(eq(subscriptions.userId, userId)),
+        ),
+      )!,
+      ...contentFilterConditions(filters?.contentFilters),
+    ];
+    if (cursor) {
+      conditions.push(sql`(${fanworkListedAt}, ${fanworks.id}) < (${cursor.at}::timestamp, ${cursor.id})`);
+    }
+
+    const rows = await db
+      .select({
+        fanwork: fanworks,
+        // Selected as text so the cursor keeps full microsecond precision
+        listedAtKey: sql<string>`${fanworkListedAt}::text`,
+        asOf: sql<string>`${asOf}::text`,
+      })
+      .from(fanworks)
+      .where(and(...conditions))
+      .orderBy(desc(fanworkListedAt), desc(fanworks.id))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+    const nextCursor = hasMore && last
+      ? encodeFeedCursor({ at: last.listedAtKey, id: last.fanwork.id, asOf: last.asOf })
+      : null;
+
+    return { items: pageRows.map(row => row.fanwork), nextCursor };
+  }
+
+  // Co-creator and gift operations
+  async getFanworkCreators(fanworkId: number): Promise<CreatorWithUser[]> {
+    const rows = await db
+      .select({
+        creator: fanworkCreators,
+        user: authorSummaryColumns,
+        pseud: { id: pseuds.id, name: pseuds.name },
+      })
+      .from(fanworkCreators)
+      .innerJoin(users, eq(fanworkCreators.userId, users.id))
+      .leftJoin(pseuds, eq(fanworkCreators.pseudId, pseuds.id))
+      .where(eq(fanworkCreators.fanworkId, fanworkId))
+      .orderBy(fanworkCreators.createdAt);
+
+    return rows.map(row => ({ ...row.creator, user: row.user, pseud: row.pseud }));
+  }
+
+  async getFanworkCreator(fanworkId: number, userId: number): Promise<FanworkCreator | undefined> {
+    const [creator] = await db
+      .select()
+      .from(fanworkCreators)
+      .where(and(eq(fanworkCreators.fanworkId, fanworkId), eq(fanworkCreators.userId, userId)));
+    return creator;
+  }
+
+  async inviteCreator(fanworkId: number, userId: number, invitedBy: number): Promise<FanworkCreator> {
+    const [creator] = await db
+      .insert(fanworkCreators)
+      .values({ fanworkId, userId, invitedBy })
+      .returning();
+    return creator;
+  }
+
+  async acceptCreatorInvite(fanworkId: number, userId: number, pseudId: number): Promise<FanworkCreator> {
+    const [creator] = await db
+      .update(fanworkCreators)
+      .set({ status: "accepted", pseudId, acceptedAt: new Date() })
+      .where(and(eq(fanworkCreators.fanworkId, fanworkId), eq(fanworkCreators.userId, userId)))
+      .returning();
+    return creator;
+  }
+
+  async removeCreator(fanworkId: number, userId: number): Promise<void> {
+    await db
+      .delete(fanworkCreators)
+      .where(and(eq(fanworkCreators.fanworkId, fanworkId), eq(fanworkCreators.userId, userId)));
+  }
+
+  async canEditFanwork(userId: number, fanwork: Fanwork): Promise<boolean> {
+    if (fanwork.authorId === userId) return true;
+    const creator = await this.getFanworkCreator(fanwork.id, userId);
+    return creator?.status === "accepted";
+  }
+
+  // Drafts and scheduled works are only visible to their creators, including invitees
+  async canViewFanwork(userId: number | undefined, fanwork: Fanwork): Promise<boolean> {
+    if (fanwork.status === "published") return true;
+    if (!userId) return false;
+    return userId === fanwork.authorId || !!(await this.getFanworkCreator(fanwork.id, userId));
+  }
+
+  async getFanworkGiftRecipients(fanworkId: number): Promise<number[]> {
+    const rows = await db
+      .select({ recipientId: fanworkGifts.recipientId })
+      .from(fanworkGifts)
+      .where(eq(fanworkGifts.fanworkId, fanworkId));
+    return rows.map(row => row.recipientId);
+  }
+
+  // Replaces the recipients and returns the ones who weren't recipients before
+  async setFanworkGifts(fanworkId: number, recipientIds: number[]): Promise<number[]> {
+    const existingIds = await this.getFanworkGiftRecipients(fanworkId);
+    const added = recipientIds.filter(id => !existingIds.includes(id));
+
+    await db
+      .delete(fanworkGifts)
+      .where(recipientIds.length > 0
+        ? and(eq(fanworkGifts.fanworkId, fanworkId), notInArray(fanworkGifts.recipientId, recipientIds))
+        : eq(fanworkGifts.fanworkId, fanworkId));
+    if (added.length > 0) {
+      await db
+        .insert(fanworkGifts)
+        .values(added.map(recipientId => ({ fanworkId, recipientId })))
+        .onConflictDoNothing();
+    }
+    return added;
+  }
+
+  // Most recently gifted first
+  async getUserGifts(userId: number, filters?: FeedFilters): Promise<FanworkPage<Fanwork>> {
+    const limit = filters?.limit || 20;
+    const cursor = filters?.cursor ? decodeTimestampCursor(filters.cursor) : undefined;
+
+    const conditions: SQL[] = [
+      eq(fanworkGifts.recipientId, userId),
+      eq(fanworks.isHidden, false),
+      eq(fanworks.status, "published"),
+      ...contentFilterConditions(filters?.contentFilters),
+    ];
+    if (cursor) {
+      conditions.push(sql`(${fanworkGifts.createdAt}, ${fanworkGifts.id}) < (${cursor.at}::timestamp, ${cursor.id})`);
+    }
+
+    const rows = await db
+      .select({
+        fanwork: fanworks,
+        giftId: fanworkGifts.id,
+        createdAtKey: sql<string>`${fanworkGifts.createdAt}::text`,
+      })
+      .from(fanworkGifts)
+      .innerJoin(fanworks, eq(fanworkGifts.fanworkId, fanworks.id))
+      .where(and(...conditions))
+      .orderBy(desc(fanworkGifts.createdAt), desc(fanworkGifts.id))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+    const nextCursor = hasMore && last
+      ? encodeTimestampCursor({ at: last.createdAtKey, id: last.giftId })
+      : null;
+
+    return { items: pageRows.map(row => row.fanwork), nextCursor };
+  }
+
+  // Block operations
+  async blockUser(blockerId: number, blockedId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.insert(userBlocks).values({ blockerId, blockedId }).onConflictDoNothing();
+      // A blocked user may not follow the blocker, so an existing follow ends here
+      await tx
+        .delete(follows)
+        .where(and(eq(follows.followerId, blockedId), eq(follows.followingId, blockerId)));
+    });
+  }
+
+  async unblockUser(blockerId: number, blockedId: number): Promise<void> {
+    await db
+      .delete(userBlocks)
+      .where(and(eq(userBlocks.blockerId, blockerId), eq(userBlocks.blockedId, blockedId)));
+  }
+
+  async isBlocked(blockerId: number, blockedId: number): Promise<boolean> {
+    const [block] = await db
+      .select()
+      .from(userBlocks)
+      .where(and(eq(userBlocks.blockerId, blockerId), eq(userBlocks.blockedId, blockedId)));
+    return !!block;
+  }
+
+  async isBlockedByAny(blockerIds: number[], blockedId: number): Promise<boolean> {
+    if (blockerIds.length === 0) return false;
+    const [block] = await db
+      .select({ id: userBlocks.id })
+      .from(userBlocks)
+      .where(and(inArray(userBlocks.blockerId, blockerIds), eq(userBlocks.blockedId, blockedId)))
+      .limit(1);
+    return !!block;
+  }
+
+  async hasBlockedAnyone(blockerIds: number[]): Promise<boolean> {
+    if (blockerIds.length === 0) return false;
+    const [block] = await db
+      .select({ id: userBlocks.id })
+      .from(userBlocks)
+      .where(inArray(userBlocks.blockerId, blockerIds))
+      .limit(1);
+    return !!block;
+  }
+
+  async getBlockedUsers(blockerId: number): Promise<RelatedUser[]> {
+    return db
+      .select({ ...authorSummaryColumns, createdAt: userBlocks.createdAt })
+      .from(userBlocks)
+      .innerJoin(users, eq(userBlocks.blockedId, users.id))
+      .where(eq(userBlocks.blockerId, blockerId))
+      .orderBy(desc(userBlocks.createdAt));
+  }
+
+  // Mute operations
+  async muteUser(muterId: number, mutedId: number): Promise<void> {
+    await db.insert(userMutes).values({ muterId, mutedId }).onConflictDoNothing();
+  }
+
+  async unmuteUser(muterId: number, mutedId: number): Promise<void> {
+    await db
+      .delete(userMutes)
+      .where(and(eq(userMutes.muterId, muterId), eq(userMutes.mutedId, mutedId)));
+  }
+
+  async isMuted(muterId: number, mutedId: number): Promise<boolean> {
+    const [mute] = await db
+      .select()
+      .from(userMutes)
+      .where(and(eq(userMutes.muterId, muterId), eq(userMutes.mutedId, mutedId)));
+    return !!mute;
+  }
+
+  async getMutedUsers(muterId: number): Promise<RelatedUser[]> {
+    return db
+      .select({ ...authorSummaryColumns, createdAt: userMutes.createdAt })
+      .from(userMutes)
+      .innerJoin(users, eq(userMutes.mutedId, users.id))
+      .where(eq(userMutes.muterId, muterId))
+      .orderBy(desc(userMutes.createdAt));
+  }
+
+  async getMuterIds(mutedId: number): Promise<number[]> {
+    const rows = await db
+      .select({ muterId: userMutes.muterId })
+      .from(userMutes)
+      .where(eq(userMutes.mutedId, mutedId));
+    return rows.map(row => row.muterId);
   }
 
   // Moderation operations
@@ -8,11 +8,20 @@ import {
   serial,
   integer,
   boolean,
+  customType,
+  uniqueIndex,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 // Session storage table for Replit Auth
 export const sessions = pgTable(
   "sessions",
@@ -24,6 +33,26 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)],
 );
 
+export interface ProfileLink {
+  label: string;
+  url: string;
+}
+
+// Works a reader never wants listed. Excluded authors are stored by user id.
+export interface ContentFilters {
+  excludeTags: string[];
+  excludeWarnings: ArchiveWarning[];
+  excludeRatings: string[];
+  excludeAuthors: number[];
+}
+
+export const emptyContentFilters: ContentFilters = {
+  excludeTags: [],
+  excludeWarnings: [],
+  excludeRatings: [],
+  excludeAuthors: [],
+};
+
 // User storage table for email/password authentication
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -33,37 +62,200 @@ export const users = pgTable("users", {
   firstName: varchar("first_name", { length: 100 }),
   lastName: varchar("last_name", { length: 100 }),
   profileImageUrl: varchar("profile_image_url", { length: 500 }),
+  bannerImageUrl: varchar("banner_image_url", { length: 500 }),
+  // Markdown source; rendered and sanitized when served
+  bio: text("bio"),
+  pronouns: varchar("pronouns", { length: 50 }),
+  links: jsonb("links").$type<ProfileLink[]>().notNull().default([]),
   role: varchar("role", { length: 20 }).notNull().default("user"),
+  // Deactivated accounts can't log in or use their existing tokens
+  isActive: boolean("is_active").notNull().default(true),
   isBanned: boolean("is_banned").notNull().default(false),
   banReason: text("ban_reason"),
   bannedAt: timestamp("banned_at"),
   bannedBy: varchar("banned_by", { length: 50 }),
   ageVerified: boolean("age_verified").notNull().default(false),
+  contentFilters: jsonb("content_filters").$type<ContentFilters>().notNull().default(emptyContentFilters),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Display names an account publishes under. Every account has exactly one
+// default pseud, created with the account and named after the username.
+export const pseuds = pgTable(
+  "pseuds",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    description: text("description"),
+    isDefault: boolean("is_default").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_pseuds_user_name").on(table.userId, table.name)],
+);
+
+// Who may comment on a fanwork. "moderated" holds comments until the author approves them.
+export const commentPolicies = ["open", "registered", "disabled", "moderated"] as const;
+export type CommentPolicy = (typeof commentPolicies)[number];
+
+// AO3's archive warnings. "none" (no archive warnings apply) can't be combined
+// with the others; "choose-not-to-warn" can, to flag some warnings but not all.
+export const archiveWarnings = [
+  "choose-not-to-warn",
+  "graphic-violence",
+  "major-character-death",
+  "non-con",
+  "underage",
+  "none",
+] as const;
+export type ArchiveWarning = (typeof archiveWarnings)[number];
+
+// Relationship categories, any number of which may apply
+export const fanworkCategories = ["f/f", "f/m", "gen", "m/m", "multi", "other"] as const;
+export type FanworkCategory = (typeof fanworkCategories)[number];
+
+// Mature and explicit works sit behind the age gate, so ratings must be one of these exactly
+export const fanworkRatings = ["all-ages", "teen", "mature", "explicit"] as const;
+export type FanworkRating = (typeof fanworkRatings)[number];
+
+// Drafts are only visible to their creators; scheduled works go live at publishAt
+export const fanworkStatuses = ["draft", "scheduled", "published"] as const;
+export type FanworkStatus = (typeof fanworkStatuses)[number];
+
 // Fanworks table (artwork and fanfiction only)
-export const fanworks = pgTable("fanworks", {
+export const fanworks = pgTable(
+  "fanworks",
+  {
+    id: serial("id").primaryKey(),
+    title: varchar("title", { length: 200 }).notNull(),
+    description: text("description"),
+    type: varchar("type", { length: 20 }).notNull(), // fanart, fanfiction
+    contentUrl: varchar("content_url", { length: 500 }),
+    textContent: text("text_content"), // For fanfiction
+    rating: varchar("rating", { length: 10 }).notNull(),
+    // Works posted before warnings existed count as their creator choosing not to warn
+    warnings: text("warnings").array().$type<ArchiveWarning[]>().notNull().default(["choose-not-to-warn"]),
+    categories: text("categories").array().$type<FanworkCategory[]>().notNull().default([]),
+    wordCount: integer("word_count").notNull().default(0),
+    chapterCount: integer("chapter_count").notNull().default(0),
+    expectedChapters: integer("expected_chapters"), // null means the author hasn't decided yet
+    isComplete: boolean("is_complete").notNull().default(false),
+    commentPolicy: varchar("comment_policy", { length: 20 }).notNull().default("registered"),
+    authorId: integer("author_id").notNull().references(() => users.id),
+    // The author's pseud this work is credited to
+    pseudId: integer("pseud_id").references(() => pseuds.id, { onDelete: "set null" }),
+    status: varchar("status", { length: 20 }).notNull().default("published"),
+    // When a scheduled work is due to go live
+    publishAt: timestamp("publish_at"),
+    // When the work actually went live; null for drafts and scheduled works
+    publishedAt: timestamp("published_at"),
+    isHidden: boolean("is_hidden").notNull().default(false),
+    moderationReason: text("moderation_reason"),
+    moderatedAt: timestamp("moderated_at"),
+    moderatedBy: integer("moderated_by"),
+    contentType: varchar("content_type", { length: 50 }).notNull().default("fanart"),
+    isReported: boolean("is_reported").notNull().default(false),
+    reportCount: integer("report_count").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_fanworks_status_publish_at").on(table.status, table.publishAt),
+    index("IDX_fanworks_published_at").on(table.publishedAt),
+    index("IDX_fanworks_warnings").using("gin", table.warnings),
+    // Uploaded files are matched back to their work to check its rating
+    index("IDX_fanworks_content_url").on(table.contentUrl),
+  ],
+);
+
+// A chapter as it stood when a revision was taken, in reading order
+export interface ChapterSnapshot {
+  title: string | null;
+  summary: string | null;
+  notes: string | null;
+  endNotes: string | null;
+  content: string;
+}
+
+// Earlier versions of a fanwork's title, description and text, written each
+// time an edit changes one of them
+export const fanworkRevisions = pgTable(
+  "fanwork_revisions",
+  {
+    id: serial("id").primaryKey(),
+    fanworkId: integer("fanwork_id").notNull().references(() => fanworks.id, { onDelete: "cascade" }),
+    title: varchar("title", { length: 200 }).notNull(),
+    description: text("description"),
+    // For chaptered works, the chapters' text joined up so revisions diff alike
+    textContent: text("text_content"),
+    // Set when the work had chapters, so they can be restored one by one
+    chapters: jsonb("chapters").$type<ChapterSnapshot[]>(),
+    editedBy: integer("edited_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_fanwork_revisions_fanwork").on(table.fanworkId, table.createdAt)],
+);
+
+// Chapters table for multi-chapter fanfiction
+export const chapters = pgTable(
+  "chapters",
+  {
+    id: serial("id").primaryKey(),
+    fanworkId: integer("fanwork_id").notNull().references(() => fanworks.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    title: varchar("title", { length: 200 }),
+    summary: text("summary"),
+    notes: text("notes"), // Shown before the chapter text
+    endNotes: text("end_notes"), // Shown after the chapter text
+    content: text("content").notNull(),
+    wordCount: integer("word_count").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_chapters_fanwork_position").on(table.fanworkId, table.position)],
+);
+
+// Series table for grouping fanworks into ordered multi-part arcs
+export const series = pgTable("series", {
   id: serial("id").primaryKey(),
   title: varchar("title", { length: 200 }).notNull(),
-  description: text("description"),
-  type: varchar("type", { length: 20 }).notNull(), // fanart, fanfiction
-  contentUrl: varchar("content_url", { length: 500 }),
-  textContent: text("text_content"), // For fanfiction
-  rating: varchar("rating", { length: 10 }).notNull(),
+  summary: text("summary"),
   authorId: integer("author_id").notNull().references(() => users.id),
-  isHidden: boolean("is_hidden").notNull().default(false),
-  moderationReason: text("moderation_reason"),
-  moderatedAt: timestamp("moderated_at"),
-  moderatedBy: integer("moderated_by"),
-  contentType: varchar("content_type", { length: 50 }).notNull().default("fanart"),
-  isReported: boolean("is_reported").notNull().default(false),
-  reportCount: integer("report_count").notNull().default(0),
+  isComplete: boolean("is_complete").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Junction table for series and fanworks, ordered by position
+export const seriesWorks = pgTable(
+  "series_works",
+  {
+    id: serial("id").primaryKey(),
+    seriesId: integer("series_id").notNull().references(() => series.id, { onDelete: "cascade" }),
+    fanworkId: integer("fanwork_id").notNull().references(() => fanworks.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_series_works_series_position").on(table.seriesId, table.position),
+    uniqueIndex("IDX_series_works_pair").on(table.seriesId, table.fanworkId),
+  ],
+);
+
+// Full-text search index, one row per fanwork. Kept out of the fanworks table
+// so that regular selects don't ship the vector around.
+export const fanworkSearch = pgTable(
+  "fanwork_search",
+  {
+    fanworkId: integer("fanwork_id").primaryKey().references(() => fanworks.id, { onDelete: "cascade" }),
+    document: tsvector("document").notNull(),
+    body: text("body"), // HTML-escaped description and story text used for search snippets
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_fanwork_search_document").using("gin", table.document)],
+);
+
 // Tags table
 export const tags = pgTable("tags", {
   id: serial("id").primaryKey(),
@@ -88,19 +280,74 @@ export const likes = pgTable("likes", {
 });
 
 // Comments table
-export const comments = pgTable("comments", {
-  id: serial("id").primaryKey(),
-  content: text("content").notNull(),
-  userId: integer("user_id").notNull().references(() => users.id),
-  fanworkId: integer("fanwork_id").notNull().references(() => fanworks.id, { onDelete: "cascade" }),
-  createdAt: timestamp("created_at").defaultNow(),
-});
+export const comments = pgTable(
+  "comments",
+  {
+    id: serial("id").primaryKey(),
+    content: text("content").notNull(),
+    userId: integer("user_id").references(() => users.id), // null for guest comments
+    guestName: varchar("guest_name", { length: 50 }),
+    fanworkId: integer("fanwork_id").notNull().references(() => fanworks.id, { onDelete: "cascade" }),
+    parentId: integer("parent_id").references((): AnyPgColumn => comments.id, { onDelete: "cascade" }),
+    threadId: integer("thread_id"), // Top-level comment this reply hangs under; null for top-level comments
+    depth: integer("depth").notNull().default(0),
+    isApproved: boolean("is_approved").notNull().default(true),
+    editedAt: timestamp("edited_at"),
+    deletedAt: timestamp("deleted_at"), // Soft-deleted comments stay as a "[deleted]" placeholder
+    deletedBy: integer("deleted_by"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_comments_fanwork_thread").on(table.fanworkId, table.threadId, table.createdAt),
+    index("IDX_comments_thread").on(table.threadId),
+  ],
+);
+
+// Earlier versions of a comment, written each time it is edited or deleted
+export const commentRevisions = pgTable(
+  "comment_revisions",
+  {
+    id: serial("id").primaryKey(),
+    commentId: integer("comment_id").notNull().references(() => comments.id, { onDelete: "cascade" }),
+    content: text("content").notNull(),
+    editedBy: integer("edited_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_comment_revisions_comment").on(table.commentId, table.createdAt)],
+);
+
+// Users who may no longer interact with the blocker or their works
+export const userBlocks = pgTable(
+  "user_blocks",
+  {
+    id: serial("id").primaryKey(),
+    blockerId: integer("blocker_id").notNull().references(() => users.id),
+    blockedId: integer("blocked_id").notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_user_blocks_pair").on(table.blockerId, table.blockedId)],
+);
+
+// Users whose works and comments are hidden from the muter. Unlike a block,
+// the muted user isn't stopped from doing anything and is never told.
+export const userMutes = pgTable(
+  "user_mutes",
+  {
+    id: serial("id").primaryKey(),
+    muterId: integer("muter_id").notNull().references(() => users.id),
+    mutedId: integer("muted_id").notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_user_mutes_pair").on(table.muterId, table.mutedId)],
+);
 
 // Bookmarks table
 export const bookmarks = pgTable("bookmarks", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   fanworkId: integer("fanwork_id").notNull().references(() => fanworks.id, { onDelete: "cascade" }),
+  // Private bookmarks are left off the user's public profile
+  isPrivate: boolean("is_private").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -120,14 +367,135 @@ export const reports = pgTable("reports", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Users following other users
+export const follows = pgTable(
+  "follows",
+  {
+    id: serial("id").primaryKey(),
+    followerId: integer("follower_id").notNull().references(() => users.id),
+    followingId: integer("following_id").notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_follows_pair").on(table.followerId, table.followingId),
+    index("IDX_follows_following").on(table.followingId),
+  ],
+);
+
+// Subscriptions to a single fanwork or a whole series; exactly one of the two is set
+export const subscriptions = pgTable(
+  "subscriptions",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull().references(() => users.id),
+    fanworkId: integer("fanwork_id").references(() => fanworks.id, { onDelete: "cascade" }),
+    seriesId: integer("series_id").references(() => series.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_subscriptions_user_fanwork").on(table.userId, table.fanworkId),
+    uniqueIndex("IDX_subscriptions_user_series").on(table.userId, table.seriesId),
+  ],
+);
+
+// Co-creators of a fanwork besides its owner (fanworks.authorId). An invitee is
+// only credited, and only gets edit rights, once they accept.
+export const creatorStatuses = ["pending", "accepted"] as const;
+export type CreatorStatus = (typeof creatorStatuses)[number];
+
+export const fanworkCreators = pgTable(
+  "fanwork_creators",
+  {
+    id: serial("id").primaryKey(),
+    fanworkId: integer("fanwork_id").notNull().references(() => fanworks.id, { onDelete: "cascade" }),
+    userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    // Chosen by the invitee when accepting
+    pseudId: integer("pseud_id").references(() => pseuds.id, { onDelete: "set null" }),
+    status: varchar("status", { length: 20 }).notNull().default("pending"),
+    invitedBy: integer("invited_by").notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    acceptedAt: timestamp("accepted_at"),
+  },
+  (table) => [
+    uniqueIndex("IDX_fanwork_creators_pair").on(table.fanworkId, table.userId),
+    index("IDX_fanwork_creators_user").on(table.userId),
+  ],
+);
+
+// Users a fanwork is gifted to
+export const fanworkGifts = pgTable(
+  "fanwork_gifts",
+  {
+    id: serial("id").primaryKey(),
+    fanworkId: integer("fanwork_id").notNull().references(() => fanworks.id, { onDelete: "cascade" }),
+    recipientId: integer("recipient_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_fanwork_gifts_pair").on(table.fanworkId, table.recipientId),
+    index("IDX_fanwork_gifts_recipient").on(table.recipientId),
+  ],
+);
+
+// What happened, from the recipient's point of view
+export const notificationTypes = [
+  "comment",
+  "reply",
+  "like",
+  "bookmark",
+  "report_resolved",
+  "cocreator_invite",
+  "cocreator_accepted",
+  "gift",
+] as const;
+export type NotificationType = (typeof notificationTypes)[number];
+
+// Notifications table, one row per recipient
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull().references(() => users.id),
+    actorId: integer("actor_id").references(() => users.id), // Who caused it; null for guests and the system
+    type: varchar("type", { length: 30 }).notNull(),
+    fanworkId: integer("fanwork_id").references(() => fanworks.id, { onDelete: "cascade" }),
+    commentId: integer("comment_id").references(() => comments.id, { onDelete: "cascade" }),
+    reportId: integer("report_id").references(() => reports.id, { onDelete: "cascade" }),
+    message: text("message"), // Extra detail, e.g. the outcome of a report
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_notifications_user").on(table.userId, table.readAt, table.id)],
+);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   fanworks: many(fanworks),
+  pseuds: many(pseuds),
+  series: many(series),
   likes: many(likes),
   comments: many(comments),
   bookmarks: many(bookmarks),
   reports: many(reports, { relationName: "reporter" }),
   reviewedReports: many(reports, { relationName: "reviewer" }),
+  blocks: many(userBlocks, { relationName: "blocker" }),
+  blockedBy: many(userBlocks, { relationName: "blocked" }),
+  mutes: many(userMutes, { relationName: "muter" }),
+  mutedBy: many(userMutes, { relationName: "muted" }),
+  notifications: many(notifications, { relationName: "recipient" }),
+  following: many(follows, { relationName: "follower" }),
+  followers: many(follows, { relationName: "following" }),
+  subscriptions: many(subscriptions),
+  coCreations: many(fanworkCreators, { relationName: "creator" }),
+  gifts: many(fanworkGifts),
+}));
+
+export const pseudsRelations = relations(pseuds, ({ one, many }) => ({
+  user: one(users, {
+    fields: [pseuds.userId],
+    references: [users.id],
+  }),
+  fanworks: many(fanworks),
 }));
 
 export const fanworksRelations = relations(fanworks, ({ one, many }) => ({
@@ -135,11 +503,57 @@ export const fanworksRelations = relations(fanworks, ({ one, many }) => ({
     fields: [fanworks.authorId],
     references: [users.id],
   }),
+  pseud: one(pseuds, {
+    fields: [fanworks.pseudId],
+    references: [pseuds.id],
+  }),
   tags: many(fanworkTags),
+  chapters: many(chapters),
+  series: many(seriesWorks),
   likes: many(likes),
   comments: many(comments),
   bookmarks: many(bookmarks),
   reports: many(reports),
+  creators: many(fanworkCreators),
+  gifts: many(fanworkGifts),
+  revisions: many(fanworkRevisions),
+}));
+
+export const fanworkRevisionsRelations = relations(fanworkRevisions, ({ one }) => ({
+  fanwork: one(fanworks, {
+    fields: [fanworkRevisions.fanworkId],
+    references: [fanworks.id],
+  }),
+  editor: one(users, {
+    fields: [fanworkRevisions.editedBy],
+    references: [users.id],
+  }),
+}));
+
+export const chaptersRelations = relations(chapters, ({ one }) => ({
+  fanwork: one(fanworks, {
+    fields: [chapters.fanworkId],
+    references: [fanworks.id],
+  }),
+}));
+
+export const seriesRelations = relations(series, ({ one, many }) => ({
+  author: one(users, {
+    fields: [series.authorId],
+    references: [users.id],
+  }),
+  works: many(seriesWorks),
+}));
+
+export const seriesWorksRelations = relations(seriesWorks, ({ one }) => ({
+  series: one(series, {
+    fields: [seriesWorks.seriesId],
+    references: [series.id],
+  }),
+  fanwork: one(fanworks, {
+    fields: [seriesWorks.fanworkId],
+    references: [fanworks.id],
+  }),
 }));
 
 export const tagsRelations = relations(tags, ({ many }) => ({
@@ -168,7 +582,7 @@ export const likesRelations = relations(likes, ({ one }) => ({
   }),
 }));
 
-export const commentsRelations = relations(comments, ({ one }) => ({
+export const commentsRelations = relations(comments, ({ one, many }) => ({
   user: one(users, {
     fields: [comments.userId],
     references: [users.id],
@@ -177,6 +591,130 @@ export const commentsRelations = relations(comments, ({ one }) => ({
     fields: [comments.fanworkId],
     references: [fanworks.id],
   }),
+  parent: one(comments, {
+    fields: [comments.parentId],
+    references: [comments.id],
+    relationName: "replies",
+  }),
+  replies: many(comments, { relationName: "replies" }),
+  revisions: many(commentRevisions),
+}));
+
+export const commentRevisionsRelations = relations(commentRevisions, ({ one }) => ({
+  comment: one(comments, {
+    fields: [commentRevisions.commentId],
+    references: [comments.id],
+  }),
+  editor: one(users, {
+    fields: [commentRevisions.editedBy],
+    references: [users.id],
+  }),
+}));
+
+export const followsRelations = relations(follows, ({ one }) => ({
+  follower: one(users, {
+    fields: [follows.followerId],
+    references: [users.id],
+    relationName: "follower",
+  }),
+  following: one(users, {
+    fields: [follows.followingId],
+    references: [users.id],
+    relationName: "following",
+  }),
+}));
+
+export const subscriptionsRelations = relations(subscriptions, ({ one }) => ({
+  user: one(users, {
+    fields: [subscriptions.userId],
+    references: [users.id],
+  }),
+  fanwork: one(fanworks, {
+    fields: [subscriptions.fanworkId],
+    references: [fanworks.id],
+  }),
+  series: one(series, {
+    fields: [subscriptions.seriesId],
+    references: [series.id],
+  }),
+}));
+
+export const fanworkCreatorsRelations = relations(fanworkCreators, ({ one }) => ({
+  fanwork: one(fanworks, {
+    fields: [fanworkCreators.fanworkId],
+    references: [fanworks.id],
+  }),
+  user: one(users, {
+    fields: [fanworkCreators.userId],
+    references: [users.id],
+    relationName: "creator",
+  }),
+  pseud: one(pseuds, {
+    fields: [fanworkCreators.pseudId],
+    references: [pseuds.id],
+  }),
+}));
+
+export const fanworkGiftsRelations = relations(fanworkGifts, ({ one }) => ({
+  fanwork: one(fanworks, {
+    fields: [fanworkGifts.fanworkId],
+    references: [fanworks.id],
+  }),
+  recipient: one(users, {
+    fields: [fanworkGifts.recipientId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+    relationName: "recipient",
+  }),
+  actor: one(users, {
+    fields: [notifications.actorId],
+    references: [users.id],
+    relationName: "actor",
+  }),
+  fanwork: one(fanworks, {
+    fields: [notifications.fanworkId],
+    references: [fanworks.id],
+  }),
+  comment: one(comments, {
+    fields: [notifications.commentId],
+    references: [comments.id],
+  }),
+  report: one(reports, {
+    fields: [notifications.reportId],
+    references: [reports.id],
+  }),
+}));
+
+export const userBlocksRelations = relations(userBlocks, ({ one }) => ({
+  blocker: one(users, {
+    fields: [userBlocks.blockerId],
+    references: [users.id],
+    relationName: "blocker",
+  }),
+  blocked: one(users, {
+    fields: [userBlocks.blockedId],
+    references: [users.id],
+    relationName: "blocked",
+  }),
+}));
+
+export const userMutesRelations = relations(userMutes, ({ one }) => ({
+  muter: one(users, {
+    fields: [userMutes.muterId],
+    references: [users.id],
+    relationName: "muter",
+  }),
+  muted: one(users, {
+    fields: [userMutes.mutedId],
+    references: [users.id],
+    relationName: "muted",
+  }),
 }));
 
 export const bookmarksRelations = relations(bookmarks, ({ one }) => ({
@@ -215,9 +753,17 @@ export const reportsRelations = relations(reports, ({ one }) => ({
   }),
 }));
 
+// Multipart bodies send lists as repeated fields or as one comma-separated value
+function multipartList(value: unknown): unknown {
+  return typeof value === "string"
+    ? value.split(",").map(entry => entry.trim()).filter(Boolean)
+    : value;
+}
+
 // Insert schemas for validation
 export const insertFanworkSchema = createInsertSchema(fanworks).omit({
   id: true,
+  publishedAt: true,
   createdAt: true,
   updatedAt: true,
   isHidden: true,
@@ -226,6 +772,54 @@ export const insertFanworkSchema = createInsertSchema(fanworks).omit({
   moderatedBy: true,
   isReported: true,
   reportCount: true,
+  wordCount: true,
+  chapterCount: true,
+  isComplete: true,
+}).extend({
+  rating: z.preprocess(
+    value => (typeof value === "string" ? value.trim().toLowerCase() : value),
+    z.enum(fanworkRatings),
+  ),
+  commentPolicy: z.enum(commentPolicies).optional(),
+  warnings: z.preprocess(
+    multipartList,
+    z
+      .array(z.enum(archiveWarnings))
+      .min(1, "Choose at least one archive warning")
+      .refine(
+        warnings => !warnings.includes("none") || warnings.length === 1,
+        "\"No archive warnings apply\" can't be combined with other warnings",
+      ),
+  ),
+  categories: z.preprocess(multipartList, z.array(z.enum(fanworkCategories))).optional(),
+  status: z.enum(fanworkStatuses).optional(),
+  publishAt: z.coerce.date().nullable().optional(),
+  // Multipart bodies send ids as strings
+  pseudId: z.coerce.number().int().positive().optional(),
+});
+
+export const insertPseudSchema = createInsertSchema(pseuds, {
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(1000).nullable().optional(),
+}).omit({
+  id: true,
+  userId: true,
+  isDefault: true,
+  createdAt: true,
+});
+
+export const insertChapterSchema = createInsertSchema(chapters).omit({
+  id: true,
+  position: true,
+  wordCount: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSeriesSchema = createInsertSchema(series).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
 export const insertTagSchema = createInsertSchema(tags).omit({
@@ -235,6 +829,12 @@ export const insertTagSchema = createInsertSchema(tags).omit({
 
 export const insertCommentSchema = createInsertSchema(comments).omit({
   id: true,
+  threadId: true,
+  depth: true,
+  isApproved: true,
+  editedAt: true,
+  deletedAt: true,
+  deletedBy: true,
   createdAt: true,
 });
 
@@ -247,16 +847,123 @@ export const insertReportSchema = createInsertSchema(reports).omit({
   moderationAction: true,
 });
 
+export const insertNotificationSchema = createInsertSchema(notifications, {
+  type: z.enum(notificationTypes),
+}).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+export const profileLinkSchema = z.object({
+  label: z.string().trim().min(1).max(50),
+  url: z
+    .string()
+    .trim()
+    .url()
+    .max(500)
+    .refine((url) => /^https?:\/\//i.test(url), "Links must use http or https"),
+});
+
+// Fields a user may change on their own profile. Images are uploaded separately.
+export const updateProfileSchema = z.object({
+  firstName: z.string().trim().max(100).nullable(),
+  lastName: z.string().trim().max(100).nullable(),
+  bio: z.string().max(5000).nullable(),
+  pronouns: z.string().trim().max(50).nullable(),
+  links: z.array(profileLinkSchema).max(10),
+}).partial();
+
+// Saved content filters as edited by their owner, with authors named by username
+export const updateContentFiltersSchema = z.object({
+  excludeTags: z.array(z.string().trim().min(1).max(100)).max(200),
+  excludeWarnings: z.array(z.enum(archiveWarnings).exclude(["none"])).max(archiveWarnings.length),
+  excludeRatings: z.array(z.enum(fanworkRatings)).max(fanworkRatings.length),
+  excludeAuthors: z.array(z.string().trim().min(1).max(50)).max(200),
+});
+
 // Type exports
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
+export type UpdateContentFilters = z.infer<typeof updateContentFiltersSchema>;
+export type InsertPseud = z.infer<typeof insertPseudSchema>;
+export type Pseud = typeof pseuds.$inferSelect;
 export type InsertFanwork = z.infer<typeof insertFanworkSchema>;
 export type Fanwork = typeof fanworks.$inferSelect;
+export type FanworkRevision = typeof fanworkRevisions.$inferSelect;
+export type InsertChapter = z.infer<typeof insertChapterSchema>;
+export type Chapter = typeof chapters.$inferSelect;
+export type InsertSeries = z.infer<typeof insertSeriesSchema>;
+export type Series = typeof series.$inferSelect;
+export type SeriesWork = typeof seriesWorks.$inferSelect;
 export type InsertTag = z.infer<typeof insertTagSchema>;
 export type Tag = typeof tags.$inferSelect;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
 export type Comment = typeof comments.$inferSelect;
+export type CommentRevision = typeof commentRevisions.$inferSelect;
 export type InsertReport = z.infer<typeof insertReportSchema>;
 export type Report = typeof reports.$inferSelect;
 export type Like = typeof likes.$inferSelect;
-export type Bookmark = typeof bookmarks.$inferSelect;
\ No newline at end of file
+export type Bookmark = typeof bookmarks.$inferSelect;
+export type UserBlock = typeof userBlocks.$inferSelect;
+export type UserMute = typeof userMutes.$inferSelect;
+export type Follow = typeof follows.$inferSelect;
+export type Subscription = typeof subscriptions.$inferSelect;
+export type FanworkCreator = typeof fanworkCreators.$inferSelect;
+export type FanworkGift = typeof fanworkGifts.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+// Works as the API presents them, shared with the client
+export type FanworkListItem = Fanwork & {
+  // Matching excerpt with <mark> around hits, only present for searches
+  searchHeadline?: string;
+};
+
+export type AuthorSummary = Pick<User, "id" | "username" | "firstName" | "lastName" | "profileImageUrl">;
+
+export type PseudSummary = Pick<Pseud, "id" | "name">;
+
+export type PseudWithCount = Pseud & { workCount: number };
+
+export type CreatorCredit = {
+  user: AuthorSummary;
+  pseud: PseudSummary | null;
+};
+
+// How the viewer relates to a work's credits
+export type ViewerCreatorStatus = "owner" | "accepted" | "pending" | null;
+
+export interface FanworkCounts {
+  likes: number;
+  comments: number;
+  bookmarks: number;
+}
+
+// What a listing card needs beyond the bare row
+export type EnrichedFanwork<T extends Fanwork = Fanwork> = T & {
+  author: AuthorSummary | null;
+  pseud: PseudSummary | null;
+  // Accepted co-creators, besides the owner above
+  coCreators: CreatorCredit[];
+  giftedTo: AuthorSummary[];
+  tags: Tag[];
+  counts: FanworkCounts;
+  viewer: {
+    isLiked: boolean;
+    isBookmarked: boolean;
+    isBookmarkPrivate: boolean;
+    isSubscribed: boolean;
+    isFollowingAuthor: boolean;
+    creatorStatus: ViewerCreatorStatus;
+    // Owners and accepted co-creators have the same edit rights
+    canEdit: boolean;
+  };
+};
+
+export interface FanworkPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  totalCount?: number;
+}